@@ -0,0 +1,30 @@
+import { AuthService } from '../services/authService.js';
+
+export function getBearerToken(req) {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+}
+
+// Rejects requests without a valid bearer token when AUTH_ENABLED=true and
+// sets req.user for the routes after it. Does nothing when auth is disabled.
+export async function requireAuth(req, res, next) {
+  const authService = AuthService.getInstance();
+  if (!authService.isEnabled()) return next();
+
+  try {
+    const user = await authService.getUserForToken(getBearerToken(req));
+    if (!user) {
+      return res.status(401).json({
+        error: 'Authentication required',
+        message: 'Sign in to use this server',
+        authRequired: true,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
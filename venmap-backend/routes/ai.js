@@ -1,44 +1,160 @@
 import express from 'express';
 import { AIService } from '../services/aiService.js';
+import { validateMessages } from '../services/conversation.js';
+import { validateTask } from '../services/providerRouting.js';
+import { UsageService } from '../services/usageService.js';
 
 const router = express.Router();
 
-// Generate AI response endpoint
-router.post('/generate', async (req, res) => {
-  try {
-    const { prompt, context } = req.body;
+// Reject requests when backend keys are disabled or the prompt/messages/task
+// are invalid. Returns true if a response has already been sent.
+function rejectInvalidGenerateRequest(req, res) {
+  const { prompt, messages, task } = req.body;
 
-    // Check if backend API keys should be used
-    const useBackendKeys = process.env.USE_BACKEND_API_KEYS === 'true';
-    
-    if (!useBackendKeys) {
-      return res.status(403).json({
-        error: 'Backend API keys disabled',
-        message: 'Backend API keys are disabled. Please use frontend API keys.',
-        useBackendKeys: false,
-        timestamp: new Date().toISOString()
-      });
-    }
+  // Check if backend API keys should be used
+  const useBackendKeys = process.env.USE_BACKEND_API_KEYS === 'true';
+  
+  if (!useBackendKeys) {
+    res.status(403).json({
+      error: 'Backend API keys disabled',
+      message: 'Backend API keys are disabled. Please use frontend API keys.',
+      useBackendKeys: false,
+      timestamp: new Date().toISOString()
+    });
+    return true;
+  }
 
-    // Validate request
-    if (!prompt || typeof prompt !== 'string') {
-      return res.status(400).json({
+  // Validate request: either a chat history or a single prompt
+  if (messages !== undefined) {
+    const messagesError = validateMessages(messages);
+    if (messagesError) {
+      res.status(400).json({
         error: 'Invalid request',
-        message: 'Prompt is required and must be a string',
+        message: messagesError,
         timestamp: new Date().toISOString()
       });
+      return true;
     }
+  } else if (!prompt || typeof prompt !== 'string') {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: 'Prompt is required and must be a string',
+      timestamp: new Date().toISOString()
+    });
+    return true;
+  }
+
+  // An optional task picks the provider route, e.g. "chat" or "plan"
+  const taskError = validateTask(task);
+  if (taskError) {
+    res.status(400).json({
+      error: 'Invalid request',
+      message: taskError,
+      timestamp: new Date().toISOString()
+    });
+    return true;
+  }
+
+  return false;
+}
+
+// Refuse the request with a 429 once the caller's daily or monthly token quota
+// is used up. Returns true if a response has already been sent.
+async function rejectOverQuota(req, res) {
+  const usageService = UsageService.getInstance();
+  const quota = await usageService.getQuotaStatus(usageService.getUsageKey(req));
+  if (!quota.exceeded) return false;
+
+  const period = quota[quota.exceeded];
+  res.status(429).json({
+    error: 'Token quota exceeded',
+    message: `The ${quota.exceeded} quota of ${period.limit} tokens has been used up. It resets at ${period.resetsAt}.`,
+    quota,
+    timestamp: new Date().toISOString()
+  });
+  return true;
+}
+
+// Records the usage a generation reports against the caller's quota
+function createUsageMeter(req, endpoint) {
+  const usageService = UsageService.getInstance();
+  const key = usageService.getUsageKey(req);
+  let usage = null;
+  let recording = Promise.resolve();
+
+  return {
+    onUsage: (reported) => {
+      usage = reported;
+      recording = usageService.record(key, reported, endpoint)
+        .catch(error => console.error('Usage recording error:', error));
+    },
+    // The generation's usage (null for the fallback response) and the quota left
+    async summary() {
+      await recording;
+      return { usage, quota: await usageService.getQuotaStatus(key) };
+    }
+  };
+}
+
+// Cache-Control: no-cache asks for a fresh answer instead of a cached one
+function allowsCachedResponse(req) {
+  return !/no-cache/i.test(req.get('Cache-Control') || '');
+}
+
+// A `messages` history takes precedence over `prompt`: its last (user) message
+// becomes the prompt and the earlier turns are passed along as history
+function getPromptAndHistory(body) {
+  if (Array.isArray(body.messages)) {
+    return {
+      prompt: body.messages[body.messages.length - 1].content,
+      history: body.messages.slice(0, -1)
+    };
+  }
+
+  return { prompt: body.prompt, history: [] };
+}
+
+// Generate AI response endpoint
+router.post('/generate', async (req, res) => {
+  try {
+    if (rejectInvalidGenerateRequest(req, res)) return;
+    if (await rejectOverQuota(req, res)) return;
+
+    const { context, task } = req.body;
+    const { prompt, history } = getPromptAndHistory(req.body);
+    const meter = createUsageMeter(req, 'generate');
+    let route = null;
+
+    // Abort the upstream provider call if the client disconnects first
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) controller.abort();
+    });
 
     // Generate response using AI service
-    const response = await AIService.getInstance().generateResponse(prompt, context);
+    const response = await AIService.getInstance().generateResponse(prompt, context, {
+      signal: controller.signal,
+      history,
+      task,
+      cache: allowsCachedResponse(req),
+      onUsage: meter.onUsage,
+      onRoute: (taken) => { route = taken; }
+    });
 
     res.json({
       response,
-      provider: AIService.getInstance().getActiveProvider(),
+      provider: route.providerName,
+      route,
+      ...await meter.summary(),
       timestamp: new Date().toISOString()
     });
 
   } catch (error) {
+    if (error.name === 'AbortError') {
+      console.log('AI generation aborted: client disconnected');
+      return;
+    }
+
     console.error('AI generation error:', error);
     
     // Handle specific AI API errors
@@ -66,8 +182,101 @@ router.post('/generate', async (req, res) => {
   }
 });
 
+// Stream AI response endpoint (Server-Sent Events)
+router.post('/generate/stream', async (req, res) => {
+  if (rejectInvalidGenerateRequest(req, res)) return;
+
+  try {
+    if (await rejectOverQuota(req, res)) return;
+  } catch (error) {
+    console.error('Usage quota check error:', error);
+    return res.status(500).json({
+      error: 'AI generation failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Failed to generate response',
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  const { context, task } = req.body;
+  const { prompt, history } = getPromptAndHistory(req.body);
+  const meter = createUsageMeter(req, 'stream');
+  let route = null;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  // Stop forwarding tokens and abort the upstream call once the client goes away
+  let clientClosed = false;
+  const controller = new AbortController();
+  res.on('close', () => {
+    clientClosed = true;
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    for await (const token of AIService.getInstance().streamResponse(prompt, context, {
+      signal: controller.signal,
+      history,
+      task,
+      cache: allowsCachedResponse(req),
+      onUsage: meter.onUsage,
+      onRoute: (taken) => { route = taken; }
+    })) {
+      if (clientClosed) break;
+
+      // Plan and pitch deck requests have templates of their own, so tell them
+      // no provider answered instead of streaming the canned chat reply
+      if (route.fallback && task) {
+        sendEvent('error', {
+          error: 'AI generation failed',
+          message: 'No AI provider is available',
+          route,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      sendEvent('token', { token });
+    }
+
+    if (!clientClosed) {
+      sendEvent('done', {
+        provider: route.providerName,
+        route,
+        ...await meter.summary(),
+        timestamp: new Date().toISOString()
+      });
+    }
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      console.log('AI streaming aborted: client disconnected');
+      return;
+    }
+
+    console.error('AI streaming error:', error);
+
+    if (!clientClosed) {
+      sendEvent('error', {
+        error: 'AI generation failed',
+        message: process.env.NODE_ENV === 'development' ? error.message : 'Failed to generate response',
+        timestamp: new Date().toISOString()
+      });
+    }
+  } finally {
+    res.end();
+  }
+});
+
 // Get AI service configuration info
-router.get('/config', (req, res) => {
+router.get('/config', async (req, res) => {
   try {
     const useBackendKeys = process.env.USE_BACKEND_API_KEYS === 'true';
     const config = AIService.getInstance().getConfigInfo();
@@ -75,6 +284,8 @@ router.get('/config', (req, res) => {
     res.json({
       config,
       activeProvider: AIService.getInstance().getActiveProvider(),
+      routing: AIService.getInstance().getRoutingInfo(),
+      cache: await AIService.getInstance().cache.getStats(),
       isConfigured: AIService.getInstance().isConfigured(),
       useBackendKeys: useBackendKeys,
       timestamp: new Date().toISOString()
@@ -89,10 +300,11 @@ router.get('/config', (req, res) => {
   }
 });
 
-// Health check for AI services
+// Health check for AI services; ?refresh=true probes again unless the last
+// probe was only seconds ago
 router.get('/health', async (req, res) => {
   try {
-    const health = await AIService.getInstance().healthCheck();
+    const health = await AIService.getInstance().healthCheck({ refresh: req.query.refresh === 'true' });
     res.json({
       health,
       timestamp: new Date().toISOString()
@@ -0,0 +1,86 @@
+import express from 'express';
+import rateLimit from 'express-rate-limit';
+import { getBearerToken } from '../middleware/auth.js';
+import { AuthService } from '../services/authService.js';
+
+const router = express.Router();
+
+// Tighter than the global limit to slow down password guessing
+const authLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20,
+  message: {
+    error: 'Too many sign-in attempts, please try again later.',
+  },
+});
+
+const sendError = (res, status, error, message) => {
+  res.status(status).json({
+    error,
+    message,
+    timestamp: new Date().toISOString()
+  });
+};
+
+const rejectWhenDisabled = (res) => {
+  if (AuthService.getInstance().isEnabled()) return false;
+  sendError(res, 404, 'Accounts disabled', 'This server does not use accounts. Set AUTH_ENABLED=true to enable them.');
+  return true;
+};
+
+// Whether the server needs a sign-in, and who the given token belongs to
+router.get('/status', async (req, res, next) => {
+  try {
+    const authService = AuthService.getInstance();
+    const user = authService.isEnabled() ? await authService.getUserForToken(getBearerToken(req)) : null;
+
+    res.json({
+      authRequired: authService.isEnabled(),
+      signupOpen: authService.isSignupOpen(),
+      inviteCodeRequired: authService.requiresInviteCode(),
+      user,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/signup', authLimiter, async (req, res, next) => {
+  if (rejectWhenDisabled(res)) return;
+
+  try {
+    const authService = AuthService.getInstance();
+    const signupError = authService.validateSignup(req.body || {});
+    if (signupError) {
+      return sendError(res, 400, 'Invalid request', signupError);
+    }
+
+    const session = await authService.signup(req.body);
+    if (!session) {
+      return sendError(res, 409, 'Account exists', 'An account with this email already exists');
+    }
+
+    console.log(`👤 New account: ${session.user.email}`);
+    res.status(201).json({ ...session, timestamp: new Date().toISOString() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/login', authLimiter, async (req, res, next) => {
+  if (rejectWhenDisabled(res)) return;
+
+  try {
+    const session = await AuthService.getInstance().login(req.body || {});
+    if (!session) {
+      return sendError(res, 401, 'Invalid credentials', 'Incorrect email or password');
+    }
+
+    res.json({ ...session, timestamp: new Date().toISOString() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { router as authRoutes };
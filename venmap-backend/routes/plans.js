@@ -0,0 +1,112 @@
+import express from 'express';
+import { PlanStore, validatePlan } from '../services/planStore.js';
+
+const router = express.Router();
+
+const sendError = (res, status, error, message) => {
+  res.status(status).json({
+    error,
+    message,
+    timestamp: new Date().toISOString()
+  });
+};
+
+// Wraps a handler with the disabled check and the shared 500 response
+const handle = (label, handler) => async (req, res) => {
+  if (!PlanStore.getInstance().isEnabled()) {
+    return sendError(res, 403, 'Plan sync disabled', 'Plan sync is disabled. Set PLAN_SYNC_ENABLED=true on the backend to enable it.');
+  }
+
+  try {
+    await handler(req, res, PlanStore.getInstance());
+  } catch (error) {
+    console.error(`${label} error:`, error);
+    sendError(res, 500, `${label} failed`,
+      process.env.NODE_ENV === 'development' ? error.message : 'Plan storage error');
+  }
+};
+
+// Each account only sees its own plans; null when accounts are disabled
+const ownerOf = (req) => req.user?.id ?? null;
+
+const sourceOf = (body) => (typeof body.source === 'string' ? body.source : undefined);
+
+const rejectInvalidPlan = (req, res) => {
+  const planError = validatePlan(req.body?.plan);
+  if (planError) {
+    sendError(res, 400, 'Invalid request', planError);
+    return true;
+  }
+  return false;
+};
+
+// List plan summaries and deleted plan ids
+router.get('/', handle('List plans', async (req, res, store) => {
+  const { plans, deleted } = await store.listPlans(ownerOf(req));
+  res.json({ plans, deleted, timestamp: new Date().toISOString() });
+}));
+
+router.post('/', handle('Create plan', async (req, res, store) => {
+  if (rejectInvalidPlan(req, res)) return;
+
+  const plan = await store.createPlan(ownerOf(req), req.body.plan, sourceOf(req.body));
+  res.status(201).json({ plan, timestamp: new Date().toISOString() });
+}));
+
+router.get('/:id', handle('Get plan', async (req, res, store) => {
+  const plan = await store.getPlan(ownerOf(req), req.params.id);
+  if (!plan) {
+    return sendError(res, 404, 'Plan not found', `No plan with id ${req.params.id}`);
+  }
+  res.json({ plan, timestamp: new Date().toISOString() });
+}));
+
+// Body: { plan, baseRevision, force?, source? }. Answers 409 with the stored
+// plan when someone else saved since baseRevision and force isn't set.
+router.put('/:id', handle('Update plan', async (req, res, store) => {
+  if (rejectInvalidPlan(req, res)) return;
+
+  const { plan, baseRevision, force } = req.body;
+  const result = await store.updatePlan(ownerOf(req), req.params.id, plan, { baseRevision, force: force === true, source: sourceOf(req.body) });
+  if (!result) {
+    return sendError(res, 404, 'Plan not found', `No plan with id ${req.params.id}`);
+  }
+  if (result.conflict) {
+    return res.status(409).json({
+      error: 'Conflict',
+      message: 'The plan was changed by someone else',
+      plan: result.plan,
+      timestamp: new Date().toISOString()
+    });
+  }
+  res.json({ plan: result.plan, timestamp: new Date().toISOString() });
+}));
+
+router.delete('/:id', handle('Delete plan', async (req, res, store) => {
+  const deleted = await store.deletePlan(ownerOf(req), req.params.id);
+  if (!deleted) {
+    return sendError(res, 404, 'Plan not found', `No plan with id ${req.params.id}`);
+  }
+  res.json({ deleted: true, timestamp: new Date().toISOString() });
+}));
+
+// Version history, newest first
+router.get('/:id/versions', handle('List versions', async (req, res, store) => {
+  const versions = await store.getVersions(ownerOf(req), req.params.id);
+  if (!versions) {
+    return sendError(res, 404, 'Plan not found', `No plan with id ${req.params.id}`);
+  }
+  res.json({ versions, timestamp: new Date().toISOString() });
+}));
+
+router.post('/:id/versions', handle('Add version', async (req, res, store) => {
+  if (rejectInvalidPlan(req, res)) return;
+
+  const version = await store.addVersion(ownerOf(req), req.params.id, req.body.plan, sourceOf(req.body));
+  if (!version) {
+    return sendError(res, 404, 'Plan not found', `No plan with id ${req.params.id}`);
+  }
+  res.status(201).json({ version, timestamp: new Date().toISOString() });
+}));
+
+export { router as planRoutes };
@@ -0,0 +1,41 @@
+import express from 'express';
+import { UsageService } from '../services/usageService.js';
+
+const router = express.Router();
+
+const MAX_DAYS = 365;
+
+// Token usage by day, provider and model for the last `days` days (default 30),
+// plus the caller's remaining quota. With accounts enabled only the caller's
+// own usage is counted; otherwise the summary covers everyone using the server.
+router.get('/', async (req, res) => {
+  const days = req.query.days === undefined ? 30 : Number(req.query.days);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return res.status(400).json({
+      error: 'Invalid request',
+      message: `days must be a whole number from 1 to ${MAX_DAYS}`,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  try {
+    const usageService = UsageService.getInstance();
+    const key = usageService.getUsageKey(req);
+
+    res.json({
+      scope: req.user ? 'user' : 'server',
+      ...await usageService.getSummary({ key: req.user ? key : undefined, days }),
+      quota: await usageService.getQuotaStatus(key),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Usage summary error:', error);
+    res.status(500).json({
+      error: 'Usage summary failed',
+      message: process.env.NODE_ENV === 'development' ? error.message : 'Usage storage error',
+      timestamp: new Date().toISOString()
+    });
+  }
+});
+
+export { router as usageRoutes };
@@ -4,7 +4,14 @@ import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import dotenv from 'dotenv';
 import { aiRoutes } from './routes/ai.js';
+import { authRoutes } from './routes/auth.js';
+import { planRoutes } from './routes/plans.js';
+import { usageRoutes } from './routes/usage.js';
+import { requireAuth } from './middleware/auth.js';
 import { AIService } from './services/aiService.js';
+import { AuthService } from './services/authService.js';
+import { PlanStore } from './services/planStore.js';
+import { UsageService } from './services/usageService.js';
 
 // Load environment variables
 dotenv.config();
@@ -52,7 +59,7 @@ app.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Cache-Control'],
 }));
 
 // Body parsing middleware
@@ -69,7 +76,12 @@ app.get(`${basePath}/health`, (req, res) => {
   });
 });
 
-// API routes (with base path support)
+// API routes (with base path support). Everything but sign-in needs an
+// account when AUTH_ENABLED=true.
+app.use(`${basePath}/api/auth`, authRoutes);
+app.use(`${basePath}/api`, requireAuth);
+app.use(`${basePath}/api/plans`, planRoutes);
+app.use(`${basePath}/api/usage`, usageRoutes);
 app.use(`${basePath}/api`, aiRoutes);
 
 // 404 handler
@@ -97,11 +109,28 @@ app.listen(PORT, () => {
   console.log(`🚀 Backend server running on port ${PORT}`);
   console.log(`🔗 Health check: http://localhost:${PORT}${basePath}/health`);
   console.log(`🤖 AI Provider: ${aiService.getActiveProvider()}`);
+  if (aiService.routing.source !== 'default') {
+    const tasks = Object.keys(aiService.routing.routes);
+    console.log(`🧭 AI routing from ${aiService.routing.source}${tasks.length > 0 ? `, task routes: ${tasks.join(', ')}` : ''}`);
+  }
+  if (aiService.cache.isEnabled()) {
+    console.log(`🗃️ Response cache enabled, storing up to ${aiService.cache.maxEntries} answers in ${aiService.cache.filePath}`);
+  }
   console.log(`🌐 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`📡 CORS enabled for: ${process.env.FRONTEND_URL || 'http://localhost:3000'}`);
   if (basePath) {
     console.log(`📂 Base path: ${basePath}`);
   }
+  if (AuthService.getInstance().isEnabled()) {
+    console.log('🔐 Accounts enabled: /api requires sign-in');
+  }
+  if (PlanStore.getInstance().isEnabled()) {
+    console.log(`💾 Plan sync enabled, storing plans in ${PlanStore.getInstance().filePath}`);
+  }
+  const usageService = UsageService.getInstance();
+  if (usageService.dailyQuota || usageService.monthlyQuota) {
+    console.log(`📊 Token quotas: ${usageService.dailyQuota || 'unlimited'} per day, ${usageService.monthlyQuota || 'unlimited'} per month`);
+  }
 });
 
 export default app;
\ No newline at end of file
@@ -1,5 +1,61 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import fetch from 'node-fetch';
+import { estimateTokens, normalizeMessages, truncateMessages } from './conversation.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { classifyError, getRetryDelay, httpError } from './providerErrors.js';
+import { ProviderHealth } from './providerHealth.js';
+import { loadRoutingConfig, orderTargets } from './providerRouting.js';
+import { ResponseCache, cacheKey } from './responseCache.js';
+
+const GEMINI_MODEL = 'gemini-1.5-pro-latest';
+const CLAUDE_MODEL = 'claude-3-sonnet-20240229';
+const OPENAI_MODEL = 'gpt-4';
+
+// Token counts from a provider's usage block, in the Claude ({ input_tokens,
+// output_tokens }), OpenAI ({ prompt_tokens, completion_tokens }) or Gemini
+// ({ promptTokenCount, candidatesTokenCount }) shape. Null if it has none.
+const readUsage = (usage) => {
+  if (!usage) return null;
+  const inputTokens = usage.input_tokens ?? usage.prompt_tokens ?? usage.promptTokenCount;
+  const outputTokens = usage.output_tokens ?? usage.completion_tokens ?? usage.candidatesTokenCount;
+  return Number.isFinite(inputTokens) && Number.isFinite(outputTokens) ? { inputTokens, outputTokens } : null;
+};
+
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// The signal for one provider attempt: aborted when the caller's signal is, or
+// when timeoutMs passes first
+const createAttemptSignal = (signal, timeoutMs) => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    stopTimer: () => clearTimeout(timer),
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+};
 
 export class AIService {
   static instance = null;
@@ -33,9 +89,87 @@ export class AIService {
       model: process.env.CUSTOM_API_MODEL || 'gpt-3.5-turbo',
       format: process.env.CUSTOM_API_FORMAT || 'openai',
       headerPrefix: process.env.CUSTOM_API_HEADER_PREFIX || 'Bearer',
+      healthEndpoint: process.env.CUSTOM_API_HEALTH_ENDPOINT || '/models',
       maxTokens: parseInt(process.env.CUSTOM_API_MAX_TOKENS || '4000'),
       temperature: parseFloat(process.env.CUSTOM_API_TEMPERATURE || '0.7')
     };
+
+    // Token budget shared by the context and chat history sent to a provider
+    this.historyTokenBudget = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '12000');
+
+    // Providers by the ids used in the routing config
+    this.providers = {
+      custom: {
+        name: 'Custom API',
+        defaultModel: this.customConfig.model,
+        configured: !!(this.customApiKey && this.customConfig.baseUrl),
+        // Settings besides the model that change its answers, for the response
+        // cache. The other providers' are fixed in code.
+        parameters: {
+          format: this.customConfig.format,
+          maxTokens: this.customConfig.maxTokens,
+          temperature: this.customConfig.temperature
+        },
+        generate: (prompt, context, options) => this.callCustomAPI(prompt, context, options),
+        stream: (prompt, context, options) => this.streamCustomAPI(prompt, context, options),
+        probe: (signal) => this.probe('Custom API', `${this.customConfig.baseUrl}${this.customConfig.healthEndpoint}`, this.getCustomHeaders(), signal)
+      },
+      gemini: {
+        name: 'Gemini',
+        defaultModel: GEMINI_MODEL,
+        configured: !!this.geminiApiKey,
+        generate: (prompt, context, options) => this.callGeminiAPI(prompt, context, options),
+        stream: (prompt, context, options) => this.streamGeminiAPI(prompt, context, options),
+        probe: (signal) => this.probe('Gemini', `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}`, {
+          'x-goog-api-key': this.geminiApiKey
+        }, signal)
+      },
+      claude: {
+        name: 'Claude',
+        defaultModel: CLAUDE_MODEL,
+        configured: !!this.claudeApiKey,
+        generate: (prompt, context, options) => this.callClaudeAPI(prompt, context, options),
+        stream: (prompt, context, options) => this.streamClaudeAPI(prompt, context, options),
+        probe: (signal) => this.probe('Claude', 'https://api.anthropic.com/v1/models?limit=1', {
+          'x-api-key': this.claudeApiKey,
+          'anthropic-version': '2023-06-01'
+        }, signal)
+      },
+      openai: {
+        name: 'OpenAI',
+        defaultModel: OPENAI_MODEL,
+        configured: !!this.openaiApiKey,
+        generate: (prompt, context, options) => this.callOpenAI(prompt, context, options),
+        stream: (prompt, context, options) => this.streamOpenAI(prompt, context, options),
+        probe: (signal) => this.probe('OpenAI', 'https://api.openai.com/v1/models', {
+          'Authorization': `Bearer ${this.openaiApiKey}`
+        }, signal)
+      }
+    };
+
+    this.routing = loadRoutingConfig();
+
+    // Timeout and retries for each provider call
+    this.retryPolicy = {
+      maxRetries: parseInt(process.env.AI_MAX_RETRIES || '2'),
+      baseDelayMs: parseInt(process.env.AI_RETRY_BASE_DELAY_MS || '500'),
+      maxDelayMs: parseInt(process.env.AI_RETRY_MAX_DELAY_MS || '10000'),
+      timeoutMs: parseInt(process.env.AI_REQUEST_TIMEOUT_MS || '120000')
+    };
+
+    const breakerOptions = {
+      threshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '5'),
+      windowMs: parseInt(process.env.AI_BREAKER_WINDOW_MS || '60000'),
+      cooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '30000')
+    };
+    this.breakers = Object.fromEntries(Object.keys(this.providers).map(id => [id, new CircuitBreaker(breakerOptions)]));
+
+    this.health = new ProviderHealth({
+      cacheMs: parseInt(process.env.AI_HEALTH_CACHE_MS || '60000'),
+      timeoutMs: parseInt(process.env.AI_HEALTH_TIMEOUT_MS || '5000')
+    });
+
+    this.cache = new ResponseCache();
   }
 
   // Validate API key - reject empty strings, undefined, or placeholder values
@@ -68,78 +202,398 @@ export class AIService {
     return key;
   }
 
-  async generateResponse(prompt, context) {
-    // Try Custom API first if configured
-    if (this.customApiKey && this.customConfig.baseUrl) {
+  // Tries the providers on the route for options.task in turn, falling back to
+  // a canned response if none of them answers. options.onRoute is called with
+  // the route taken and options.onUsage with the answering provider's token
+  // usage (neither the canned response nor a cached one reports any).
+  async generateResponse(prompt, context, options = {}) {
+    const route = this.resolveRoute(options.task);
+
+    const cached = await this.findCachedResponse(route, prompt, context, options);
+    if (cached) {
+      options.onRoute?.(cached.route);
+      return cached.response;
+    }
+
+    for (const target of orderTargets(route.targets)) {
+      const provider = this.providers[target.provider];
+      if (!this.isAvailable(target.provider)) continue;
+
       try {
-        return await this.callCustomAPI(prompt, context);
+        const text = await this.withUsage(provider.name, target.model, prompt, context, options,
+          providerOptions => this.callWithRetries(provider.name, providerOptions,
+            attemptOptions => provider.generate(prompt, context, { ...attemptOptions, model: target.model })));
+        this.breakers[target.provider].recordSuccess();
+        this.cacheResponse(target, prompt, context, options, text);
+        options.onRoute?.(this.describeRoute(route, target));
+        return text;
       } catch (error) {
-        console.warn('Custom API failed, trying fallback:', error.message);
+        options.signal?.throwIfAborted();
+        this.recordFailure(target.provider, error);
+        console.warn(`${provider.name} failed (${error.kind}), trying fallback:`, error.message);
       }
     }
-    
-    // Try Gemini API if available
-    if (this.geminiApiKey) {
+
+    // If all APIs fail, return fallback response
+    options.onRoute?.(this.describeRoute(route, null));
+    return this.getFallbackResponse(prompt);
+  }
+
+  // Stream a response token by token, falling back through the route's
+  // providers like generateResponse. A provider is only skipped if it fails
+  // before producing any output; once tokens have been sent we can't retry.
+  // options.onRoute is called when the first token arrives. A cached answer
+  // arrives in one piece.
+  async *streamResponse(prompt, context, options = {}) {
+    const route = this.resolveRoute(options.task);
+
+    const cached = await this.findCachedResponse(route, prompt, context, options);
+    if (cached) {
+      options.onRoute?.(cached.route);
+      yield cached.response;
+      return;
+    }
+
+    for (const target of orderTargets(route.targets)) {
+      const provider = this.providers[target.provider];
+      if (!this.isAvailable(target.provider)) continue;
+
+      let hasOutput = false;
+      let output = '';
+      let reported = null;
+      const providerOptions = {
+        ...options,
+        model: target.model,
+        reportUsage: (usage) => { reported = readUsage(usage) || reported; }
+      };
+
       try {
-        return await this.callGeminiAPI(prompt, context);
+        const tokens = this.streamWithRetries(provider.name, providerOptions,
+          attemptOptions => provider.stream(prompt, context, attemptOptions));
+
+        for await (const token of tokens) {
+          if (!hasOutput) options.onRoute?.(this.describeRoute(route, target));
+          hasOutput = true;
+          output += token;
+          yield token;
+        }
+        this.breakers[target.provider].recordSuccess();
+        this.cacheResponse(target, prompt, context, options, output);
+        return;
       } catch (error) {
-        console.warn('Gemini API failed, trying fallback:', error.message);
+        options.signal?.throwIfAborted();
+        this.recordFailure(target.provider, error);
+        if (hasOutput) throw error;
+        console.warn(`${provider.name} streaming failed (${error.kind}), trying fallback:`, error.message);
+      } finally {
+        // Also runs when the stream is cut short, since those tokens were still used
+        if (hasOutput) this.emitUsage(options, { provider: provider.name, model: target.model, reported, prompt, context, output });
       }
     }
 
-    // Try Claude API if available
-    if (this.claudeApiKey) {
+    // If all APIs fail, stream the fallback response in one piece
+    options.onRoute?.(this.describeRoute(route, null));
+    yield this.getFallbackResponse(prompt);
+  }
+
+  // The configured providers to try for a task, in order: the task's route if
+  // the routing config has one, otherwise the default order. A task whose
+  // route has no configured provider also falls back to the default order.
+  resolveRoute(task) {
+    const configuredTargets = (targets) => targets
+      .filter(target => this.providers[target.provider].configured)
+      .map(target => ({ ...target, model: target.model || this.providers[target.provider].defaultModel }));
+
+    const routed = task && this.routing.routes[task] ? configuredTargets(this.routing.routes[task]) : [];
+    if (routed.length > 0) return { task, targets: routed };
+
+    return { task: 'default', targets: configuredTargets(this.routing.order) };
+  }
+
+  // False while the provider's circuit breaker is open
+  isAvailable(providerId) {
+    if (this.breakers[providerId].allowRequest()) return true;
+    console.warn(`🚫 ${this.providers[providerId].name} skipped: circuit open after repeated failures`);
+    return false;
+  }
+
+  // Bad requests are about the request, not the provider's health, so they
+  // don't count towards opening the breaker
+  recordFailure(providerId, error) {
+    error.kind ??= classifyError(error);
+    if (error.kind !== 'bad_request') this.breakers[providerId].recordFailure(error);
+  }
+
+  // Gives an attempt's error its kind, or a timeout error if the attempt ran out
+  // of time. Rethrows the abort if the caller gave up, which isn't a failure.
+  toFailure(providerName, error, attempt, signal) {
+    signal?.throwIfAborted();
+    if (attempt.timedOut()) {
+      return Object.assign(new Error(`${providerName} timed out after ${this.retryPolicy.timeoutMs}ms`), { kind: 'timeout' });
+    }
+    error.kind = classifyError(error);
+    return error;
+  }
+
+  // Waits out the backoff before another attempt, or throws the failure if it
+  // shouldn't be retried
+  async backOffOrThrow(providerName, failure, attemptNumber, signal) {
+    const delay = getRetryDelay(failure, attemptNumber, this.retryPolicy);
+    if (delay === null) throw failure;
+
+    console.warn(`⏳ ${providerName} ${failure.kind} error, retrying in ${delay}ms:`, failure.message);
+    await sleep(delay, signal);
+  }
+
+  // Calls a provider with a timeout on each attempt, retrying transient
+  // failures with exponential backoff. Throws the last failure.
+  async callWithRetries(providerName, options, call) {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      const attempt = createAttemptSignal(options.signal, this.retryPolicy.timeoutMs);
       try {
-        return await this.callClaudeAPI(prompt, context);
+        return await call({ ...options, signal: attempt.signal });
       } catch (error) {
-        console.warn('Claude API failed, trying fallback:', error.message);
+        await this.backOffOrThrow(providerName, this.toFailure(providerName, error, attempt, options.signal), attemptNumber, options.signal);
+      } finally {
+        attempt.dispose();
       }
     }
-    
-    // Try OpenAI API if available
-    if (this.openaiApiKey) {
+  }
+
+  // Streaming counterpart of callWithRetries. The timeout only covers the wait
+  // for the first token, and only failures before it are retried.
+  async *streamWithRetries(providerName, options, stream) {
+    for (let attemptNumber = 0; ; attemptNumber++) {
+      const attempt = createAttemptSignal(options.signal, this.retryPolicy.timeoutMs);
+      let hasOutput = false;
       try {
-        return await this.callOpenAI(prompt, context);
+        for await (const token of stream({ ...options, signal: attempt.signal })) {
+          if (!hasOutput) attempt.stopTimer();
+          hasOutput = true;
+          yield token;
+        }
+        return;
       } catch (error) {
-        console.warn('OpenAI API failed, using fallback:', error.message);
+        const failure = this.toFailure(providerName, error, attempt, options.signal);
+        if (hasOutput) throw failure;
+        await this.backOffOrThrow(providerName, failure, attemptNumber, options.signal);
+      } finally {
+        attempt.dispose();
       }
     }
-    
-    // If all APIs fail, return fallback response
-    return this.getFallbackResponse(prompt);
   }
 
-  async callGeminiAPI(prompt, context) {
+  // What a response reports about how it was routed; target is null when the
+  // fallback response was used
+  describeRoute(route, target, { cached = false } = {}) {
+    return {
+      task: route.task,
+      provider: target ? target.provider : null,
+      providerName: target ? this.providers[target.provider].name : 'Fallback',
+      model: target ? target.model : null,
+      fallback: !target,
+      cached
+    };
+  }
+
+  getCacheKey(target, prompt, context, options) {
+    return cacheKey({
+      provider: target.provider,
+      model: target.model,
+      parameters: this.providers[target.provider].parameters,
+      prompt,
+      context,
+      history: options.history
+    });
+  }
+
+  // A cached answer from any provider on the route as { route, response }, or
+  // null. options.cache = false (Cache-Control: no-cache) skips the lookup;
+  // the fresh answer is still cached.
+  async findCachedResponse(route, prompt, context, options) {
+    if (!this.cache.isEnabled() || route.targets.length === 0) return null;
+    if (options.cache === false) {
+      this.cache.recordBypass();
+      return null;
+    }
+
+    try {
+      const hit = await this.cache.find(route.targets.map(target => this.getCacheKey(target, prompt, context, options)));
+      if (!hit) return null;
+      return { route: this.describeRoute(route, route.targets[hit.index], { cached: true }), response: hit.response };
+    } catch (error) {
+      // A broken cache file shouldn't stop the providers being asked
+      console.error('Response cache read error:', error);
+      return null;
+    }
+  }
+
+  // Saved in the background; the response doesn't wait for the write
+  cacheResponse(target, prompt, context, options, response) {
+    if (!this.cache.isEnabled()) return;
+    this.cache.set(this.getCacheKey(target, prompt, context, options), { provider: target.provider, model: target.model, response })
+      .catch(error => console.error('Response cache write error:', error));
+  }
+
+  // Runs a non-streaming provider call and passes its token usage to
+  // options.onUsage. The call reports the provider's own counts through
+  // providerOptions.reportUsage; without them the usage is estimated.
+  async withUsage(provider, model, prompt, context, options, call) {
+    let reported = null;
+    const text = await call({ ...options, reportUsage: (usage) => { reported = readUsage(usage); } });
+    this.emitUsage(options, { provider, model, reported, prompt, context, output: text });
+    return text;
+  }
+
+  emitUsage(options, { provider, model, reported, prompt, context, output }) {
+    if (!options.onUsage) return;
+
+    const estimatedInput = () => this.buildMessages(prompt, context, options.history)
+      .reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+    options.onUsage({
+      provider,
+      model,
+      inputTokens: reported ? reported.inputTokens : estimatedInput(),
+      outputTokens: reported ? reported.outputTokens : estimateTokens(output),
+      estimated: !reported
+    });
+  }
+
+  getSystemPrompt(context) {
+    return `You are a helpful business consultant. Here's the current context: ${context}`;
+  }
+
+  // Earlier turns plus the current prompt, trimmed so that history and context
+  // together fit in the token budget. Always ends with the user's prompt.
+  buildConversation(prompt, context, history = []) {
+    const budget = Math.max(this.historyTokenBudget - estimateTokens(context), 0);
+    const conversation = truncateMessages(normalizeMessages([...history, { role: 'user', content: prompt }]), budget);
+
+    // Normalisation drops blank prompts; keep the request well-formed regardless
+    return conversation.length > 0 ? conversation : [{ role: 'user', content: prompt }];
+  }
+
+  // Build the shared system + conversation message list used by the fetch-based providers
+  buildMessages(prompt, context, history = []) {
+    const messages = [];
+
+    if (context) {
+      messages.push({
+        role: 'system',
+        content: this.getSystemPrompt(context)
+      });
+    }
+
+    return [...messages, ...this.buildConversation(prompt, context, history)];
+  }
+
+  // Parse a Server-Sent Events body into the JSON payload of each `data:` line
+  async *readServerSentEvents(body) {
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for await (const chunk of body) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop();
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice(5).trim();
+        if (!payload || payload === '[DONE]') continue;
+
+        try {
+          yield JSON.parse(payload);
+        } catch {
+          // Ignore keep-alive comments and partial JSON from misbehaving proxies
+        }
+      }
+    }
+  }
+
+  // Start a Gemini chat seeded with the context and earlier turns; returns the
+  // chat and the message to send
+  getGeminiChat(prompt, context, { history = [], model: modelName = GEMINI_MODEL } = {}) {
     const genAI = new GoogleGenerativeAI(this.geminiApiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-pro-latest" });
+    const model = genAI.getGenerativeModel({ model: modelName });
+    const conversation = this.buildConversation(prompt, context, history);
+    const previousTurns = conversation.slice(0, -1).map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }]
+    }));
 
     const chat = model.startChat({
-      history: context ? [{ role: "user", parts: [{ text: "You are a helpful business consultant. Here's the current context: " + context }] }, { role: "model", parts: [{ text: "Okay, I understand the context." }] }] : [],
+      history: [
+        ...(context ? [{ role: "user", parts: [{ text: this.getSystemPrompt(context) }] }, { role: "model", parts: [{ text: "Okay, I understand the context." }] }] : []),
+        ...previousTurns
+      ],
       generationConfig: {
         maxOutputTokens: 4000,
       },
     });
 
-    const result = await chat.sendMessage(prompt);
+    return { chat, message: conversation[conversation.length - 1].content };
+  }
+
+  async callGeminiAPI(prompt, context, options = {}) {
+    const { chat, message } = this.getGeminiChat(prompt, context, options);
+
+    const result = await chat.sendMessage(message, { signal: options.signal });
     const response = await result.response;
+    options.reportUsage?.(response.usageMetadata);
     const text = response.text();
     return text;
   }
 
-  async callClaudeAPI(prompt, context) {
-    const messages = [];
-    
-    if (context) {
-      messages.push({
-        role: 'system',
-        content: `You are a helpful business consultant. Here's the current context: ${context}`
-      });
+  async *streamGeminiAPI(prompt, context, options = {}) {
+    const { chat, message } = this.getGeminiChat(prompt, context, options);
+
+    const result = await chat.sendMessageStream(message, { signal: options.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) yield text;
     }
-    
-    messages.push({
-      role: 'user',
-      content: prompt
-    });
+
+    // Resolves once the stream is done, with the aggregated response
+    options.reportUsage?.((await result.response).usageMetadata);
+  }
+
+  async callClaudeAPI(prompt, context, options = {}) {
+    const response = await this.fetchClaude(prompt, context, false, options);
+    const data = await response.json();
+    options.reportUsage?.(data.usage);
+    return data.content[0].text;
+  }
+
+  async *streamClaudeAPI(prompt, context, options = {}) {
+    const response = await this.fetchClaude(prompt, context, true, options);
+    const usage = {};
+
+    for await (const event of this.readServerSentEvents(response.body)) {
+      if (event.type === 'content_block_delta' && event.delta?.text) {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`Claude API error: ${event.error?.message || 'Stream error'}`);
+      } else {
+        this.collectClaudeUsage(event, usage);
+      }
+    }
+
+    options.reportUsage?.(usage);
+  }
+
+  // Input tokens arrive with message_start and the output total with message_delta
+  collectClaudeUsage(event, usage) {
+    if (event.type === 'message_start') Object.assign(usage, event.message?.usage);
+    if (event.type === 'message_delta') Object.assign(usage, event.usage);
+  }
+
+  async fetchClaude(prompt, context, stream, { signal, history, model = CLAUDE_MODEL } = {}) {
+    // Claude takes the system prompt as a top-level field, not as a message
+    const messages = this.buildConversation(prompt, context, history);
 
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
@@ -149,35 +603,43 @@ export class AIService {
         'anthropic-version': '2023-06-01'
       },
       body: JSON.stringify({
-        model: 'claude-3-sonnet-20240229',
+        model,
         max_tokens: 4000,
-        messages: messages
-      })
+        system: context ? this.getSystemPrompt(context) : undefined,
+        messages: messages,
+        stream
+      }),
+      signal
     });
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({}));
-      throw new Error(`Claude API error: ${response.status} - ${error.error?.message || 'Unknown error'}`);
+      throw httpError(`Claude API error: ${response.status} - ${error.error?.message || 'Unknown error'}`, response);
     }
 
+    return response;
+  }
+
+  async callOpenAI(prompt, context, options = {}) {
+    const response = await this.fetchOpenAI(prompt, context, false, options);
     const data = await response.json();
-    return data.content[0].text;
+    options.reportUsage?.(data.usage);
+    return data.choices[0].message.content;
   }
 
-  async callOpenAI(prompt, context) {
-    const messages = [];
-    
-    if (context) {
-      messages.push({
-        role: 'system',
-        content: `You are a helpful business consultant. Here's the current context: ${context}`
-      });
+  async *streamOpenAI(prompt, context, options = {}) {
+    const response = await this.fetchOpenAI(prompt, context, true, options);
+
+    for await (const event of this.readServerSentEvents(response.body)) {
+      const token = event.choices?.[0]?.delta?.content;
+      if (token) yield token;
+      // Sent in a final chunk with no choices, as requested by stream_options
+      if (event.usage) options.reportUsage?.(event.usage);
     }
-    
-    messages.push({
-      role: 'user',
-      content: prompt
-    });
+  }
+
+  async fetchOpenAI(prompt, context, stream, { signal, history, model = OPENAI_MODEL } = {}) {
+    const messages = this.buildMessages(prompt, context, history);
 
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
@@ -186,71 +648,90 @@ export class AIService {
         'Authorization': `Bearer ${this.openaiApiKey}`
       },
       body: JSON.stringify({
-        model: 'gpt-4',
+        model,
         messages: messages,
         max_tokens: 4000,
-        temperature: 0.7
-      })
+        temperature: 0.7,
+        stream,
+        stream_options: stream ? { include_usage: true } : undefined
+      }),
+      signal
     });
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({}));
-      throw new Error(`OpenAI API error: ${response.status} - ${error.error?.message || 'Unknown error'}`);
+      throw httpError(`OpenAI API error: ${response.status} - ${error.error?.message || 'Unknown error'}`, response);
     }
 
-    const data = await response.json();
-    return data.choices[0].message.content;
+    return response;
   }
 
-  async callCustomAPI(prompt, context) {
-    const messages = [];
+  async callCustomAPI(prompt, context, options = {}) {
+    const response = await this.fetchCustom(prompt, context, false, options);
+    const data = await response.json();
+    options.reportUsage?.(data.usage);
     
-    if (context) {
-      messages.push({
-        role: 'system',
-        content: `You are a helpful business consultant. Here's the current context: ${context}`
-      });
+    // Parse response based on format
+    if (this.customConfig.format === 'openai') {
+      return data.choices?.[0]?.message?.content || data.response || 'No response received';
+    } else if (this.customConfig.format === 'claude') {
+      return data.content?.[0]?.text || data.response || 'No response received';
+    } else {
+      return data.response || data.content || data.text || data.message || 'No response received';
     }
-    
-    messages.push({
-      role: 'user',
-      content: prompt
-    });
+  }
 
-    // Build headers
-    const headers = {
-      'Content-Type': 'application/json'
-    };
+  async *streamCustomAPI(prompt, context, options = {}) {
+    // Only the OpenAI and Claude formats define a streaming protocol
+    if (this.customConfig.format !== 'openai' && this.customConfig.format !== 'claude') {
+      yield await this.callCustomAPI(prompt, context, options);
+      return;
+    }
 
-    // Set up authorization header
-    if (this.customConfig.headerPrefix === 'Bearer') {
-      headers['Authorization'] = `Bearer ${this.customApiKey}`;
-    } else if (this.customConfig.headerPrefix === 'x-api-key') {
-      headers['x-api-key'] = this.customApiKey;
-    } else if (this.customConfig.headerPrefix === 'API-Key') {
-      headers['API-Key'] = this.customApiKey;
-    } else {
-      headers['Authorization'] = `${this.customConfig.headerPrefix} ${this.customApiKey}`;
+    const response = await this.fetchCustom(prompt, context, true, options);
+
+    const usage = {};
+
+    for await (const event of this.readServerSentEvents(response.body)) {
+      const token = this.customConfig.format === 'openai'
+        ? event.choices?.[0]?.delta?.content
+        : event.type === 'content_block_delta' ? event.delta?.text : null;
+      if (token) yield token;
+
+      // OpenAI-compatible servers that report usage do so in the last chunk
+      if (this.customConfig.format === 'openai' && event.usage) Object.assign(usage, event.usage);
+      if (this.customConfig.format === 'claude') this.collectClaudeUsage(event, usage);
     }
 
+    options.reportUsage?.(usage);
+  }
+
+  async fetchCustom(prompt, context, stream, { signal, history, model = this.customConfig.model } = {}) {
+    const messages = this.buildMessages(prompt, context, history);
+
+    const headers = this.getCustomHeaders();
+
     // Build request body based on format
     let requestBody;
     if (this.customConfig.format === 'openai') {
       requestBody = {
-        model: this.customConfig.model,
+        model,
         messages: messages,
         max_tokens: this.customConfig.maxTokens,
-        temperature: this.customConfig.temperature
+        temperature: this.customConfig.temperature,
+        stream
       };
     } else if (this.customConfig.format === 'claude') {
       requestBody = {
-        model: this.customConfig.model,
+        model,
         max_tokens: this.customConfig.maxTokens,
-        messages: messages
+        system: context ? this.getSystemPrompt(context) : undefined,
+        messages: this.buildConversation(prompt, context, history),
+        stream
       };
     } else {
       requestBody = {
-        model: this.customConfig.model,
+        model,
         prompt: prompt,
         context: context,
         max_tokens: this.customConfig.maxTokens,
@@ -262,24 +743,36 @@ export class AIService {
     const response = await fetch(`${this.customConfig.baseUrl}${this.customConfig.endpoint}`, {
       method: 'POST',
       headers: headers,
-      body: JSON.stringify(requestBody)
+      body: JSON.stringify(requestBody),
+      signal
     });
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({}));
-      throw new Error(`Custom API error: ${response.status} - ${error.error?.message || response.statusText}`);
+      throw httpError(`Custom API error: ${response.status} - ${error.error?.message || response.statusText}`, response);
     }
 
-    const data = await response.json();
-    
-    // Parse response based on format
-    if (this.customConfig.format === 'openai') {
-      return data.choices?.[0]?.message?.content || data.response || 'No response received';
-    } else if (this.customConfig.format === 'claude') {
-      return data.content?.[0]?.text || data.response || 'No response received';
+    return response;
+  }
+
+  getCustomHeaders() {
+    // Build headers
+    const headers = {
+      'Content-Type': 'application/json'
+    };
+
+    // Set up authorization header
+    if (this.customConfig.headerPrefix === 'Bearer') {
+      headers['Authorization'] = `Bearer ${this.customApiKey}`;
+    } else if (this.customConfig.headerPrefix === 'x-api-key') {
+      headers['x-api-key'] = this.customApiKey;
+    } else if (this.customConfig.headerPrefix === 'API-Key') {
+      headers['API-Key'] = this.customApiKey;
     } else {
-      return data.response || data.content || data.text || data.message || 'No response received';
+      headers['Authorization'] = `${this.customConfig.headerPrefix} ${this.customApiKey}`;
     }
+
+    return headers;
   }
 
   getFallbackResponse(prompt) {
@@ -303,15 +796,32 @@ Try rephrasing your question or check back in a moment once your API is configur
   }
 
   isConfigured() {
-    return !!(this.customApiKey && this.customConfig.baseUrl) || !!this.geminiApiKey || !!this.claudeApiKey || !!this.openaiApiKey;
+    return Object.values(this.providers).some(provider => provider.configured);
   }
 
+  // The provider tried first for requests without a task route
   getActiveProvider() {
-    if (this.customApiKey && this.customConfig.baseUrl) return 'Custom API';
-    if (this.geminiApiKey) return 'Gemini';
-    if (this.claudeApiKey) return 'Claude';
-    if (this.openaiApiKey) return 'OpenAI';
-    return 'None';
+    const [first] = this.resolveRoute().targets;
+    return first ? this.providers[first.provider].name : 'None';
+  }
+
+  // The routing config as /api/config reports it, with the provider's default
+  // filled in for targets that don't name a model
+  getRoutingInfo() {
+    const describeTargets = (targets) => targets.map(target => ({
+      provider: target.provider,
+      model: target.model || this.providers[target.provider].defaultModel,
+      weight: target.weight,
+      configured: this.providers[target.provider].configured
+    }));
+
+    return {
+      source: this.routing.source,
+      order: describeTargets(this.routing.order),
+      routes: Object.fromEntries(
+        Object.entries(this.routing.routes).map(([task, targets]) => [task, describeTargets(targets)])
+      )
+    };
   }
 
   getConfigInfo() {
@@ -339,54 +849,38 @@ Try rephrasing your question or check back in a moment once your API is configur
     };
   }
 
-  async healthCheck() {
+  // A health probe: an authenticated request that lists or looks up models,
+  // so it checks the key and connectivity without spending tokens
+  async probe(label, url, headers, signal) {
+    const response = await fetch(url, { headers, signal });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw httpError(`${label} health probe: ${response.status} - ${error.error?.message || response.statusText}`, response);
+    }
+  }
+
+  // Probes every configured provider, reusing results younger than
+  // AI_HEALTH_CACHE_MS unless refresh is set
+  async healthCheck({ refresh = false } = {}) {
     const results = {
       timestamp: new Date().toISOString(),
       services: {}
     };
 
-    // Check Custom API
-    if (this.customApiKey && this.customConfig.baseUrl) {
-      try {
-        const response = await fetch(`${this.customConfig.baseUrl}/health`, {
-          method: 'GET',
-          timeout: 5000
-        });
-        results.services.custom = {
-          status: response.ok ? 'healthy' : 'unhealthy',
-          responseTime: response.ok ? 'fast' : 'slow'
-        };
-      } catch (error) {
-        results.services.custom = {
-          status: 'unavailable',
-          error: error.message
-        };
-      }
-    }
-
-    // Check Gemini API (basic connectivity)
-    if (this.geminiApiKey) {
-        results.services.gemini = {
-            status: 'configured',
-            configured: true
-        };
-    }
-
-    // Check Claude API (basic connectivity)
-    if (this.claudeApiKey) {
-      results.services.claude = {
-        status: 'configured',
-        configured: true
-      };
-    }
-
-    // Check OpenAI API (basic connectivity)
-    if (this.openaiApiKey) {
-      results.services.openai = {
-        status: 'configured',
-        configured: true
-      };
-    }
+    const configured = Object.entries(this.providers).filter(([, provider]) => provider.configured);
+    const checks = await Promise.all(configured.map(async ([id, provider]) => [id, {
+      name: provider.name,
+      model: provider.defaultModel,
+      ...await this.health.check(id, provider.probe, { refresh })
+    }]));
+    results.services = Object.fromEntries(checks);
+
+    // Circuit breaker per configured provider
+    results.breakers = Object.fromEntries(
+      Object.entries(this.providers)
+        .filter(([, provider]) => provider.configured)
+        .map(([id]) => [id, this.breakers[id].describe()])
+    );
 
     return results;
   }
@@ -0,0 +1,168 @@
+// Local user accounts for hosting one backend for a team. Passwords are hashed
+// with scrypt and sessions are stateless HS256 JWTs signed with AUTH_SECRET.
+import { createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import path from 'path';
+import { promisify } from 'util';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+// What clients get to see of a user
+const toPublicUser = ({ id, email, name, createdAt }) => ({ id, email, name, createdAt });
+
+export class AuthService {
+  static instance = null;
+
+  static getInstance() {
+    if (!AuthService.instance) {
+      AuthService.instance = new AuthService();
+    }
+    return AuthService.instance;
+  }
+
+  constructor() {
+    this.users = new JsonFileStore(
+      process.env.USER_STORE_PATH || path.join(process.cwd(), 'data', 'users.json'),
+      () => ({ users: {} })
+    );
+    this.tokenTtlHours = parseInt(process.env.AUTH_TOKEN_TTL_HOURS || '168');
+
+    this.secret = process.env.AUTH_SECRET;
+    if (!this.secret && this.isEnabled()) {
+      // Tokens still work, but everyone is signed out whenever the server restarts
+      console.warn('⚠️ AUTH_SECRET is not set; using a random secret for this run');
+      this.secret = randomBytes(32).toString('hex');
+    }
+  }
+
+  isEnabled() {
+    return process.env.AUTH_ENABLED === 'true';
+  }
+
+  // Signup can be closed entirely, or limited to people who have the invite code
+  isSignupOpen() {
+    return process.env.AUTH_ALLOW_SIGNUP !== 'false';
+  }
+
+  requiresInviteCode() {
+    return !!process.env.AUTH_SIGNUP_CODE;
+  }
+
+  async hashPassword(password, salt = randomBytes(16).toString('hex')) {
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return { salt, hash: hash.toString('hex') };
+  }
+
+  async verifyPassword(password, user) {
+    const { hash } = await this.hashPassword(password, user.salt);
+    return timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.passwordHash, 'hex'));
+  }
+
+  createToken(user) {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64url(JSON.stringify({
+      sub: user.id,
+      email: user.email,
+      iat: now,
+      exp: now + this.tokenTtlHours * 60 * 60
+    }));
+    return `${header}.${payload}.${this.sign(`${header}.${payload}`)}`;
+  }
+
+  sign(data) {
+    return createHmac('sha256', this.secret).update(data).digest('base64url');
+  }
+
+  // Returns the token's claims, or null if it is malformed, forged or expired
+  verifyToken(token) {
+    const [header, payload, signature] = (token || '').split('.');
+    if (!header || !payload || !signature) return null;
+
+    const expected = Buffer.from(this.sign(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+      const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+      return claims.exp * 1000 > Date.now() ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Returns an error message if the signup can't go ahead, otherwise null
+  validateSignup({ email, password, inviteCode }) {
+    if (!this.isSignupOpen()) {
+      return 'Signup is closed. Ask an administrator for an account.';
+    }
+    if (this.requiresInviteCode() && inviteCode !== process.env.AUTH_SIGNUP_CODE) {
+      return 'A valid invite code is required';
+    }
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return 'A valid email address is required';
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  // Resolves to { user, token }, or null if the email is already registered
+  async signup({ email, password, name }) {
+    const normalizedEmail = email.trim().toLowerCase();
+    const { salt, hash } = await this.hashPassword(password);
+
+    const user = await this.users.change(state => {
+      if (Object.values(state.users).some(existing => existing.email === normalizedEmail)) {
+        return null;
+      }
+      const created = {
+        id: randomUUID(),
+        email: normalizedEmail,
+        name: typeof name === 'string' && name.trim() ? name.trim() : normalizedEmail.split('@')[0],
+        salt,
+        passwordHash: hash,
+        createdAt: new Date().toISOString()
+      };
+      state.users[created.id] = created;
+      return created;
+    });
+
+    return user ? { user: toPublicUser(user), token: this.createToken(user) } : null;
+  }
+
+  // Resolves to { user, token }, or null if the email or password is wrong
+  async login({ email, password }) {
+    if (typeof email !== 'string' || typeof password !== 'string') return null;
+
+    const state = await this.users.load();
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = Object.values(state.users).find(existing => existing.email === normalizedEmail);
+
+    if (!user) {
+      // Hash anyway so unknown emails take as long to reject as wrong passwords
+      await this.hashPassword(password);
+      return null;
+    }
+    if (!await this.verifyPassword(password, user)) return null;
+
+    return { user: toPublicUser(user), token: this.createToken(user) };
+  }
+
+  // The user a bearer token belongs to, or null if it isn't valid (any more)
+  async getUserForToken(token) {
+    const claims = this.verifyToken(token);
+    if (!claims) return null;
+
+    const state = await this.users.load();
+    const user = state.users[claims.sub];
+    return user ? toPublicUser(user) : null;
+  }
+}
@@ -0,0 +1,56 @@
+// Stops sending requests to a provider that keeps failing. Once `threshold`
+// failures land within `windowMs` (with no success in between) the breaker
+// opens and the provider is skipped for `cooldownMs`. After that it is
+// half-open: requests go through again, and the first result either closes
+// the breaker or opens it for another cooldown.
+export class CircuitBreaker {
+  constructor({ threshold, windowMs, cooldownMs }) {
+    this.threshold = threshold;
+    this.windowMs = windowMs;
+    this.cooldownMs = cooldownMs;
+    this.failures = []; // Timestamps of recent failures
+    this.openedAt = null;
+    this.lastError = null;
+  }
+
+  getState(now = Date.now()) {
+    if (this.openedAt === null) return 'closed';
+    return now - this.openedAt < this.cooldownMs ? 'open' : 'half_open';
+  }
+
+  allowRequest() {
+    return this.getState() !== 'open';
+  }
+
+  recordSuccess() {
+    this.failures = [];
+    this.openedAt = null;
+  }
+
+  // error.kind comes from classifyError
+  recordFailure(error, now = Date.now()) {
+    this.lastError = { kind: error.kind, message: error.message, at: new Date(now).toISOString() };
+
+    if (this.getState(now) === 'half_open') {
+      this.openedAt = now;
+      return;
+    }
+
+    this.failures = [...this.failures.filter(at => now - at < this.windowMs), now];
+    if (this.failures.length >= this.threshold) {
+      this.openedAt = now;
+      this.failures = [];
+    }
+  }
+
+  describe(now = Date.now()) {
+    const state = this.getState(now);
+    return {
+      state,
+      recentFailures: this.failures.filter(at => now - at < this.windowMs).length,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryAt: state === 'open' ? new Date(this.openedAt + this.cooldownMs).toISOString() : null,
+      lastError: this.lastError
+    };
+  }
+}
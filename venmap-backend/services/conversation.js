@@ -0,0 +1,77 @@
+// Helpers for multi-turn chat history: validation, normalisation and
+// token-budget-aware truncation before the history is sent to a provider.
+
+const ROLES = ['user', 'assistant'];
+
+// Rough token estimate (~4 characters per token for English text). Good enough
+// for budgeting without pulling in a tokenizer per provider.
+export function estimateTokens(text) {
+  return Math.ceil((text || '').length / 4);
+}
+
+// Returns an error message if `messages` is not a usable history, otherwise null
+export function validateMessages(messages) {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return 'Messages must be a non-empty array';
+  }
+
+  const invalid = messages.find(message =>
+    !message || !ROLES.includes(message.role) || typeof message.content !== 'string'
+  );
+  if (invalid) {
+    return `Each message needs a role (${ROLES.join(' or ')}) and string content`;
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return 'The last message must be from the user';
+  }
+
+  return null;
+}
+
+// Drop empty messages, merge consecutive messages from the same role and make
+// sure the history starts with a user turn (Claude and Gemini require it)
+export function normalizeMessages(messages) {
+  const normalized = [];
+
+  for (const message of messages) {
+    const content = message.content.trim();
+    if (!content) continue;
+
+    const previous = normalized[normalized.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      normalized.push({ role: message.role, content });
+    }
+  }
+
+  while (normalized.length > 0 && normalized[0].role !== 'user') {
+    normalized.shift();
+  }
+
+  return normalized;
+}
+
+// Keep the most recent messages that fit in the token budget. The latest
+// message is always kept; older turns are dropped oldest-first, and the result
+// is re-aligned so it still starts with a user turn.
+export function truncateMessages(messages, tokenBudget) {
+  if (messages.length === 0) return messages;
+
+  const kept = [messages[messages.length - 1]];
+  let used = estimateTokens(kept[0].content);
+
+  for (let i = messages.length - 2; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (used + cost > tokenBudget) break;
+    kept.unshift(messages[i]);
+    used += cost;
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+
+  return kept;
+}
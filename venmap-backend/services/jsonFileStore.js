@@ -0,0 +1,46 @@
+// A JSON document kept in memory and rewritten atomically on each change.
+// Enough for the backend's small stores without needing a database to run.
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+export class JsonFileStore {
+  constructor(filePath, createInitialState) {
+    this.filePath = filePath;
+    this.createInitialState = createInitialState;
+    this.state = null;
+    // Changes are applied one at a time so concurrent requests can't interleave writes
+    this.queue = Promise.resolve();
+  }
+
+  async load() {
+    if (this.state) return this.state;
+
+    try {
+      this.state = JSON.parse(await readFile(this.filePath, 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') throw error;
+      this.state = this.createInitialState();
+    }
+    return this.state;
+  }
+
+  async persist() {
+    // Write to a temp file and rename so a crash never leaves half a file
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.state));
+    await rename(tempPath, this.filePath);
+  }
+
+  // Runs fn against the state and saves the result; resolves to fn's return value
+  change(fn) {
+    const result = this.queue.then(async () => {
+      const state = await this.load();
+      const value = fn(state);
+      await this.persist();
+      return value;
+    });
+    this.queue = result.catch(() => {});
+    return result;
+  }
+}
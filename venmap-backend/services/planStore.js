@@ -0,0 +1,159 @@
+// File-backed store for synced business plans. Everything lives in one JSON
+// file, which is plenty for a team's worth of plans.
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { JsonFileStore } from './jsonFileStore.js';
+
+// Oldest versions beyond this are pruned, per plan
+const MAX_VERSIONS_PER_PLAN = 50;
+
+// Plan fields clients may set; ids, revisions and timestamps are the store's
+const PLAN_FIELDS = ['name', 'template', 'data', 'documents', 'sections', 'financialModel', 'activeTab'];
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns an error message if `plan` can't be stored, otherwise null
+export function validatePlan(plan) {
+  if (!isObject(plan)) {
+    return 'Plan must be an object';
+  }
+  if (typeof plan.name !== 'string' || !plan.name.trim()) {
+    return 'Plan name is required';
+  }
+  if (!isObject(plan.data) || !isObject(plan.documents)) {
+    return 'Plan data and documents must be objects';
+  }
+  return null;
+}
+
+const pickPlanFields = (plan) =>
+  Object.fromEntries(PLAN_FIELDS.filter(field => plan[field] !== undefined).map(field => [field, plan[field]]));
+
+// Clients send their own edit time so last-write-wins compares when plans were
+// edited rather than when they reached the server
+const editedAt = (plan) =>
+  typeof plan.updatedAt === 'string' && !Number.isNaN(Date.parse(plan.updatedAt))
+    ? plan.updatedAt
+    : new Date().toISOString();
+
+const toSummary = ({ id, name, template, revision, createdAt, updatedAt }) =>
+  ({ id, name, template, revision, createdAt, updatedAt });
+
+// Plans belong to the account that created them. ownerId is null when
+// accounts are disabled, which is also the owner of plans synced back then.
+const isOwnedBy = (record, ownerId) => (record?.ownerId ?? null) === ownerId;
+
+// Deleted plans were once recorded as just the deletion time, without an owner
+const deletedOwnerOf = (entry) => (typeof entry === 'string' ? null : entry.ownerId);
+
+export class PlanStore extends JsonFileStore {
+  static instance = null;
+
+  static getInstance() {
+    if (!PlanStore.instance) {
+      PlanStore.instance = new PlanStore();
+    }
+    return PlanStore.instance;
+  }
+
+  constructor(filePath = process.env.PLAN_STORE_PATH || path.join(process.cwd(), 'data', 'plans.json')) {
+    super(filePath, () => ({ plans: {}, versions: {}, deleted: {} }));
+  }
+
+  isEnabled() {
+    return process.env.PLAN_SYNC_ENABLED === 'true';
+  }
+
+  // Summaries of the owner's plans plus ids deleted since, so clients can mirror deletes
+  async listPlans(ownerId) {
+    const state = await this.load();
+    return {
+      plans: Object.values(state.plans).filter(plan => isOwnedBy(plan, ownerId)).map(toSummary),
+      deleted: Object.keys(state.deleted).filter(id => deletedOwnerOf(state.deleted[id]) === ownerId)
+    };
+  }
+
+  // Plans of other owners are treated as missing
+  async getPlan(ownerId, id) {
+    const state = await this.load();
+    return isOwnedBy(state.plans[id], ownerId) ? state.plans[id] : null;
+  }
+
+  async getVersions(ownerId, id) {
+    const state = await this.load();
+    if (!isOwnedBy(state.plans[id], ownerId)) return null;
+    return [...(state.versions[id] || [])].reverse();
+  }
+
+  createPlan(ownerId, plan, source = 'sync') {
+    return this.change(state => {
+      const timestamp = new Date().toISOString();
+      const created = {
+        ...pickPlanFields(plan),
+        id: randomUUID(),
+        ownerId,
+        revision: 1,
+        createdAt: timestamp,
+        updatedAt: editedAt(plan)
+      };
+      state.plans[created.id] = created;
+      this.recordVersion(state, created, source);
+      return created;
+    });
+  }
+
+  // Rejects with the stored plan when it has moved past `baseRevision`, unless
+  // `force` is set (last write wins). Returns null if there is no such plan.
+  updatePlan(ownerId, id, plan, { baseRevision, force = false, source = 'sync' } = {}) {
+    return this.change(state => {
+      const existing = state.plans[id];
+      if (!isOwnedBy(existing, ownerId)) return null;
+
+      if (!force && baseRevision !== existing.revision) {
+        return { conflict: true, plan: existing };
+      }
+
+      const updated = {
+        ...existing,
+        ...pickPlanFields(plan),
+        revision: existing.revision + 1,
+        updatedAt: editedAt(plan)
+      };
+      state.plans[id] = updated;
+      this.recordVersion(state, updated, source);
+      return { conflict: false, plan: updated };
+    });
+  }
+
+  deletePlan(ownerId, id) {
+    return this.change(state => {
+      if (!isOwnedBy(state.plans[id], ownerId)) return false;
+      delete state.plans[id];
+      delete state.versions[id];
+      state.deleted[id] = { deletedAt: new Date().toISOString(), ownerId };
+      return true;
+    });
+  }
+
+  addVersion(ownerId, id, version, source = 'manual') {
+    return this.change(state => {
+      const plan = state.plans[id];
+      if (!isOwnedBy(plan, ownerId)) return null;
+      return this.recordVersion(state, { ...plan, ...pickPlanFields(version) }, source);
+    });
+  }
+
+  recordVersion(state, plan, source) {
+    const versions = state.versions[plan.id] || [];
+    const version = {
+      id: randomUUID(),
+      planId: plan.id,
+      revision: plan.revision,
+      source,
+      ...pickPlanFields(plan),
+      createdAt: new Date().toISOString()
+    };
+    state.versions[plan.id] = [...versions, version].slice(-MAX_VERSIONS_PER_PLAN);
+    return version;
+  }
+}
@@ -0,0 +1,65 @@
+// Classifies provider failures so AIService can tell a transient error worth
+// retrying (rate limit, overload, timeout) from one that won't fix itself
+// (bad key, bad request), and works out how long to back off.
+
+// Kinds of failure worth another attempt
+const RETRYABLE_KINDS = new Set(['rate_limit', 'overloaded', 'timeout', 'server_error', 'network']);
+
+const NETWORK_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+// Delay in milliseconds from Retry-After (seconds or an HTTP date) or OpenAI's
+// retry-after-ms header, or null when the response has neither
+export function parseRetryAfter(headers) {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (headers.get('retry-after-ms') && Number.isFinite(milliseconds)) return Math.max(milliseconds, 0);
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return null;
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(seconds * 1000, 0);
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+// An error for a failed provider response, carrying its status and any
+// Retry-After delay
+export function httpError(message, response) {
+  return Object.assign(new Error(message), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers)
+  });
+}
+
+// auth, rate_limit, overloaded, timeout, bad_request, server_error, network or unknown
+export function classifyError(error) {
+  const { status } = error;
+
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate_limit';
+  if (status === 502 || status === 503 || status === 529) return 'overloaded';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 400 && status < 500) return 'bad_request';
+  if (status >= 500) return 'server_error';
+
+  const code = error.code || error.cause?.code;
+  if (NETWORK_ERROR_CODES.has(code) || error.type === 'system' || error.message === 'fetch failed') return 'network';
+
+  return 'unknown';
+}
+
+// Milliseconds to wait before retry number `attempt` (0-based), or null if the
+// error shouldn't be retried. A Retry-After longer than the maximum delay
+// means the provider is better skipped for now.
+export function getRetryDelay(error, attempt, { maxRetries, baseDelayMs, maxDelayMs }) {
+  if (attempt >= maxRetries || !RETRYABLE_KINDS.has(error.kind)) return null;
+
+  if (error.retryAfterMs != null) {
+    return error.retryAfterMs <= maxDelayMs ? error.retryAfterMs : null;
+  }
+
+  // Exponential backoff with jitter, so parallel requests don't retry in lockstep
+  const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+  return Math.round(backoff / 2 + Math.random() * backoff / 2);
+}
@@ -0,0 +1,68 @@
+// Cached results of the provider health probes. A provider is probed at most
+// once per cacheMs (once per MIN_REFRESH_MS when a refresh is asked for), and
+// concurrent checks share the probe in flight, so polling /api/health can't
+// hammer the providers.
+import { classifyError } from './providerErrors.js';
+
+const MIN_REFRESH_MS = 5000;
+
+export class ProviderHealth {
+  constructor({ cacheMs, timeoutMs }) {
+    this.cacheMs = cacheMs;
+    this.timeoutMs = timeoutMs;
+    this.results = {};
+    this.inFlight = {};
+  }
+
+  // probe(signal) resolves once the provider answers and throws if it doesn't
+  async check(id, probe, { refresh = false } = {}) {
+    const previous = this.results[id];
+    const maxAge = refresh ? MIN_REFRESH_MS : this.cacheMs;
+    if (previous && Date.now() - Date.parse(previous.checkedAt) < maxAge) {
+      return { ...previous, cached: true };
+    }
+
+    if (!this.inFlight[id]) {
+      this.inFlight[id] = this.runProbe(id, probe).finally(() => {
+        delete this.inFlight[id];
+      });
+    }
+    return { ...await this.inFlight[id], cached: false };
+  }
+
+  async runProbe(id, probe) {
+    const previous = this.results[id] || { lastSuccessAt: null, lastFailureAt: null };
+    const startedAt = Date.now();
+
+    let result;
+    try {
+      await probe(AbortSignal.timeout(this.timeoutMs));
+      const checkedAt = new Date().toISOString();
+      result = {
+        status: 'healthy',
+        latencyMs: Date.now() - startedAt,
+        checkedAt,
+        lastSuccessAt: checkedAt,
+        lastFailureAt: previous.lastFailureAt,
+        error: null
+      };
+    } catch (error) {
+      const timedOut = error.name === 'AbortError' || error.name === 'TimeoutError';
+      const checkedAt = new Date().toISOString();
+      result = {
+        // Unhealthy: the provider answered with an error; unavailable: it didn't answer
+        status: error.status ? 'unhealthy' : 'unavailable',
+        latencyMs: error.status ? Date.now() - startedAt : null,
+        checkedAt,
+        lastSuccessAt: previous.lastSuccessAt,
+        lastFailureAt: checkedAt,
+        error: timedOut
+          ? { kind: 'timeout', message: `No answer within ${this.timeoutMs}ms` }
+          : { kind: classifyError(error), message: error.message }
+      };
+    }
+
+    this.results[id] = result;
+    return result;
+  }
+}
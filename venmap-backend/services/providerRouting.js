@@ -0,0 +1,106 @@
+// Provider routing: which providers (and models) answer a request, and in what
+// order. Read from AI_ROUTING_CONFIG (a JSON file path, or inline JSON) and
+// AI_PROVIDER_ORDER (comma-separated provider ids); without either, providers
+// are tried in the built-in order.
+import { readFileSync } from 'fs';
+
+export const PROVIDER_IDS = ['custom', 'gemini', 'claude', 'openai'];
+
+const TASK_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+
+// A target is { provider, model?, weight? }; a bare provider id is shorthand
+// for { provider }
+function parseTarget(target, where) {
+  const { provider, model, weight } = typeof target === 'string' ? { provider: target.trim() } : target || {};
+
+  if (!PROVIDER_IDS.includes(provider)) {
+    throw new Error(`${where}: unknown provider "${provider}" (expected one of ${PROVIDER_IDS.join(', ')})`);
+  }
+  if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+    throw new Error(`${where}: model must be a non-empty string`);
+  }
+  if (weight !== undefined && (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0)) {
+    throw new Error(`${where}: weight must be a number of at least 0`);
+  }
+
+  return { provider, model: model?.trim() || null, weight: weight ?? null };
+}
+
+function parseTargets(targets, where) {
+  if (!Array.isArray(targets) || targets.length === 0) {
+    throw new Error(`${where} must be a non-empty array of providers`);
+  }
+  return targets.map((target, index) => parseTarget(target, `${where}[${index}]`));
+}
+
+// { order?: targets, routes?: { [task]: targets } }
+export function parseRoutingConfig(config) {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('routing config must be a JSON object');
+  }
+  if (config.routes !== undefined && (!config.routes || typeof config.routes !== 'object' || Array.isArray(config.routes))) {
+    throw new Error('routes must be an object mapping task names to providers');
+  }
+
+  const routes = {};
+  for (const [task, targets] of Object.entries(config.routes || {})) {
+    if (!TASK_PATTERN.test(task)) {
+      throw new Error(`routes: "${task}" is not a valid task name (letters, digits, - and _)`);
+    }
+    routes[task] = parseTargets(targets, `routes.${task}`);
+  }
+
+  return {
+    order: config.order === undefined ? null : parseTargets(config.order, 'order'),
+    routes
+  };
+}
+
+// Reads the routing config from the environment. Throws if it is invalid, so a
+// typo can't silently send traffic to the wrong provider.
+export function loadRoutingConfig(env = process.env) {
+  const configSource = env.AI_ROUTING_CONFIG?.trim();
+  let config = { order: null, routes: {} };
+
+  if (configSource) {
+    const isInline = configSource.startsWith('{');
+    try {
+      config = parseRoutingConfig(JSON.parse(isInline ? configSource : readFileSync(configSource, 'utf8')));
+    } catch (error) {
+      throw new Error(`Invalid AI_ROUTING_CONFIG${isInline ? '' : ` (${configSource})`}: ${error.message}`);
+    }
+  }
+
+  let order = config.order;
+  if (!order && env.AI_PROVIDER_ORDER?.trim()) {
+    order = parseTargets(env.AI_PROVIDER_ORDER.split(',').filter(id => id.trim()), 'AI_PROVIDER_ORDER');
+  }
+
+  return {
+    order: order || PROVIDER_IDS.map(provider => ({ provider, model: null, weight: null })),
+    routes: config.routes,
+    source: configSource ? 'AI_ROUTING_CONFIG' : order ? 'AI_PROVIDER_ORDER' : 'default'
+  };
+}
+
+// Returns an error message for an invalid `task` field, or null
+export function validateTask(task) {
+  if (task === undefined) return null;
+  if (typeof task !== 'string' || !TASK_PATTERN.test(task)) {
+    return 'task must be a name made of letters, digits, - and _';
+  }
+  return null;
+}
+
+// Orders a route's targets for one request. When some targets have a weight,
+// one of them is picked at random in proportion to its weight and tried first,
+// which spreads traffic across them; the rest follow in listed order as
+// fallbacks. Routes without weights are tried in listed order.
+export function orderTargets(targets, random = Math.random) {
+  const weighted = targets.filter(target => target.weight > 0);
+  if (weighted.length === 0) return targets;
+
+  let point = random() * weighted.reduce((sum, target) => sum + target.weight, 0);
+  const first = weighted.find(target => (point -= target.weight) < 0) || weighted[weighted.length - 1];
+  return [first, ...targets.filter(target => target !== first)];
+}
@@ -0,0 +1,90 @@
+// Opt-in cache of provider answers, so asking the same thing again doesn't
+// bill the provider again. Entries live in one JSON file; the entries object
+// keeps least recently used first, which makes it the LRU order as well.
+import { createHash } from 'crypto';
+import path from 'path';
+import { JsonFileStore } from './jsonFileStore.js';
+
+// Hash of everything that changes a provider's answer
+export function cacheKey({ provider, model, parameters, prompt, context, history }) {
+  return createHash('sha256')
+    .update(JSON.stringify([provider, model, parameters ?? null, prompt, context ?? null, history ?? []]))
+    .digest('hex');
+}
+
+export class ResponseCache extends JsonFileStore {
+  constructor(filePath = process.env.AI_CACHE_STORE_PATH || path.join(process.cwd(), 'data', 'response-cache.json')) {
+    super(filePath, () => ({ entries: {} }));
+    this.ttlMs = parseInt(process.env.AI_CACHE_TTL_MS || '86400000');
+    this.maxEntries = parseInt(process.env.AI_CACHE_MAX_ENTRIES || '200');
+    // Since the server started
+    this.stats = { hits: 0, misses: 0, bypassed: 0 };
+  }
+
+  isEnabled() {
+    return process.env.AI_CACHE_ENABLED === 'true';
+  }
+
+  // The first of keys with an unexpired entry as { index, response }, or null.
+  // One lookup counts as a single hit or miss however many keys it tries.
+  async find(keys) {
+    const state = await this.load();
+    const now = Date.now();
+
+    for (const [index, key] of keys.entries()) {
+      const entry = state.entries[key];
+      if (!entry || Date.parse(entry.expiresAt) <= now) continue;
+
+      // Move it to the end as the most recently used. The new order is saved
+      // with the next write rather than spending a write on every hit.
+      delete state.entries[key];
+      state.entries[key] = entry;
+      this.stats.hits++;
+      return { index, response: entry.response };
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  // A lookup skipped because the client asked for a fresh answer
+  recordBypass() {
+    this.stats.bypassed++;
+  }
+
+  set(key, { provider, model, response }) {
+    return this.change(state => {
+      const now = Date.now();
+      delete state.entries[key];
+      state.entries[key] = {
+        provider,
+        model,
+        response,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + this.ttlMs).toISOString()
+      };
+
+      for (const [entryKey, entry] of Object.entries(state.entries)) {
+        if (Date.parse(entry.expiresAt) <= now) delete state.entries[entryKey];
+      }
+
+      // Evict the least recently used beyond the limit
+      const keys = Object.keys(state.entries);
+      keys.slice(0, Math.max(keys.length - this.maxEntries, 0)).forEach(oldest => {
+        delete state.entries[oldest];
+      });
+    });
+  }
+
+  async getStats() {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      enabled: this.isEnabled(),
+      ttlMs: this.ttlMs,
+      maxEntries: this.maxEntries,
+      entries: this.isEnabled() ? Object.keys((await this.load()).entries).length : 0,
+      ...this.stats,
+      hitRate: lookups > 0 ? Math.round(this.stats.hits / lookups * 1000) / 1000 : null
+    };
+  }
+}
@@ -0,0 +1,126 @@
+// Token usage metering and quotas. Every generation is recorded with the
+// provider's token counts (or an estimate when the provider gives none) and
+// checked against the optional daily and monthly quotas.
+import path from 'path';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dayOf = (timestamp) => timestamp.slice(0, 10); // YYYY-MM-DD, UTC
+const monthOf = (timestamp) => timestamp.slice(0, 7); // YYYY-MM, UTC
+
+const startOfNextDay = (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+const startOfNextMonth = (now) => new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+const emptyTotals = () => ({ requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+const addToTotals = (totals, record) => {
+  totals.requests++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.inputTokens + record.outputTokens;
+  return totals;
+};
+
+// Totals per value of key(record), sorted by key
+const groupTotals = (records, key) => {
+  const groups = new Map();
+  records.forEach(record => {
+    const name = key(record);
+    groups.set(name, addToTotals(groups.get(name) || emptyTotals(), record));
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, totals]) => ({ name, ...totals }));
+};
+
+export class UsageService {
+  static instance = null;
+
+  static getInstance() {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  constructor() {
+    this.store = new JsonFileStore(
+      process.env.USAGE_STORE_PATH || path.join(process.cwd(), 'data', 'usage.json'),
+      () => ({ records: [] })
+    );
+    // 0 means unlimited
+    this.dailyQuota = parseInt(process.env.USAGE_DAILY_TOKEN_QUOTA || '0');
+    this.monthlyQuota = parseInt(process.env.USAGE_MONTHLY_TOKEN_QUOTA || '0');
+    this.retentionDays = parseInt(process.env.USAGE_RETENTION_DAYS || '90');
+  }
+
+  // Usage is metered per account, or per IP when accounts are disabled
+  getUsageKey(req) {
+    return req.user ? `user:${req.user.id}` : `ip:${req.ip}`;
+  }
+
+  // usage: { provider, model, inputTokens, outputTokens, estimated }
+  record(key, usage, endpoint) {
+    return this.store.change(state => {
+      const now = Date.now();
+      const cutoff = new Date(now - this.retentionDays * DAY_MS).toISOString();
+      const record = {
+        key,
+        endpoint,
+        provider: usage.provider,
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        estimated: usage.estimated,
+        timestamp: new Date(now).toISOString()
+      };
+      state.records = [...state.records.filter(existing => existing.timestamp >= cutoff), record];
+      return record;
+    });
+  }
+
+  // Used, limit and remaining tokens for the current day and month. `exceeded`
+  // names the first period whose quota is used up, or is null.
+  async getQuotaStatus(key) {
+    const now = new Date();
+    const today = dayOf(now.toISOString());
+    const thisMonth = monthOf(now.toISOString());
+    const { records } = await this.store.load();
+
+    const own = records.filter(record => record.key === key && monthOf(record.timestamp) === thisMonth);
+    const usedThisMonth = own.reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0);
+    const usedToday = own
+      .filter(record => dayOf(record.timestamp) === today)
+      .reduce((sum, record) => sum + record.inputTokens + record.outputTokens, 0);
+
+    const period = (limit, used, resetsAt) => ({
+      limit: limit || null,
+      used,
+      remaining: limit ? Math.max(limit - used, 0) : null,
+      resetsAt: resetsAt.toISOString()
+    });
+
+    const daily = period(this.dailyQuota, usedToday, startOfNextDay(now));
+    const monthly = period(this.monthlyQuota, usedThisMonth, startOfNextMonth(now));
+    const exceeded = daily.remaining === 0 ? 'daily' : monthly.remaining === 0 ? 'monthly' : null;
+
+    return { daily, monthly, exceeded };
+  }
+
+  // Totals for the last `days` days, by day, provider and model. Pass a key to
+  // only count one user's usage.
+  async getSummary({ key, days = 30 } = {}) {
+    const since = new Date(Date.now() - days * DAY_MS).toISOString();
+    const { records } = await this.store.load();
+    const selected = records.filter(record => record.timestamp >= since && (!key || record.key === key));
+
+    return {
+      since,
+      totals: selected.reduce(addToTotals, emptyTotals()),
+      byDay: groupTotals(selected, record => dayOf(record.timestamp)),
+      byProvider: groupTotals(selected, record => record.provider),
+      byModel: groupTotals(selected, record => `${record.provider}/${record.model}`)
+    };
+  }
+}
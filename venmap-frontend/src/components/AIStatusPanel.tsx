@@ -0,0 +1,152 @@
+import React, { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronDown, Loader2, RefreshCw } from 'lucide-react';
+import { AIClient, type ProviderBreaker, type ProviderHealth, type ProviderHealthReport } from '../utils/apiClient';
+
+interface AIStatusPanelProps {
+  status: { isConfigured: boolean; provider: string; loading: boolean };
+  usesOwnKeys: boolean; // Requests go straight to the provider, not through the backend
+  isDarkMode: boolean;
+}
+
+const STATUS_COLORS: Record<ProviderHealth['status'], string> = {
+  healthy: 'bg-green-500',
+  unhealthy: 'bg-red-500',
+  unavailable: 'bg-orange-500'
+};
+
+const formatTimeAgo = (timestamp: string | null): string => {
+  if (!timestamp) return 'never';
+  const minutes = Math.round((Date.now() - Date.parse(timestamp)) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} h ago`;
+  return new Date(timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+};
+
+const describeBreaker = (breaker?: ProviderBreaker): string | null => {
+  if (!breaker || breaker.state === 'closed') return null;
+  if (breaker.state === 'half_open') return 'Recovering: the next request will try it again';
+  return `Skipped after repeated failures until ${new Date(breaker.retryAt!).toLocaleTimeString([], { timeStyle: 'short' })}`;
+};
+
+// The AI status line in the header, opening into a panel with each backend
+// provider's probe result
+const AIStatusPanel: React.FC<AIStatusPanelProps> = memo(({
+  status,
+  usesOwnKeys,
+  isDarkMode
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<ProviderHealthReport | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [hasChecked, setHasChecked] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  const checkHealth = useCallback(async (refresh: boolean) => {
+    setIsChecking(true);
+    setReport(await AIClient.getInstance().getProviderHealth(refresh));
+    setHasChecked(true);
+    setIsChecking(false);
+  }, []);
+
+  // Probe results are cached by the backend, so fetching on every open is cheap
+  useEffect(() => {
+    if (isOpen) checkHealth(false);
+  }, [isOpen, checkHealth]);
+
+  // Close the panel when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-500';
+  const services = report ? Object.entries(report.services) : [];
+
+  return (
+    <div ref={panelRef} className="relative inline-block mt-2">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 hover:opacity-100"
+        title="Show AI provider status"
+      >
+        <div className={`w-2 h-2 rounded-full ${status.loading ? 'bg-yellow-500' : status.isConfigured ? 'bg-green-500' : 'bg-orange-500'}`}></div>
+        <span className="text-xs opacity-70">
+          AI: {status.loading ? 'Checking...' : status.isConfigured ? `${status.provider} Connected` : 'Not Configured'}
+        </span>
+        <ChevronDown className={`w-3 h-3 opacity-70 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute left-0 top-full mt-2 w-80 rounded-lg shadow-xl border z-50 ${
+          isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+        }`}>
+          {usesOwnKeys && (
+            <p className={`px-3 py-2 text-xs border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-100'} ${mutedClasses}`}>
+              Requests go straight to the provider with your own API key. The backend providers below are only used without one.
+            </p>
+          )}
+
+          {!hasChecked ? (
+            <div className="p-4 flex justify-center">
+              <Loader2 className="w-4 h-4 animate-spin" />
+            </div>
+          ) : !report ? (
+            <p className={`p-4 text-sm text-center ${mutedClasses}`}>Backend provider status is unavailable</p>
+          ) : services.length === 0 ? (
+            <p className={`p-4 text-sm text-center ${mutedClasses}`}>No providers are configured on the backend</p>
+          ) : (
+            services.map(([id, service]) => {
+              const breakerNote = describeBreaker(report.breakers?.[id]);
+              return (
+                <div key={id} className={`px-3 py-2 text-sm border-b ${isDarkMode ? 'border-gray-700' : 'border-gray-100'}`}>
+                  <div className="flex items-center gap-2">
+                    <div className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[service.status]}`}></div>
+                    <span className="font-medium">{service.name}</span>
+                    <span className={`text-xs truncate ${mutedClasses}`}>{service.model}</span>
+                    <span className={`ml-auto text-xs whitespace-nowrap ${mutedClasses}`}>
+                      {service.status === 'healthy' ? `${service.latencyMs} ms` : service.status}
+                    </span>
+                  </div>
+                  <div className={`text-xs mt-1 ${mutedClasses}`}>
+                    Last OK {formatTimeAgo(service.lastSuccessAt)} · Last failure {formatTimeAgo(service.lastFailureAt)}
+                  </div>
+                  {service.error && (
+                    <div className="text-xs mt-1 text-red-500 break-words">{service.error.message}</div>
+                  )}
+                  {breakerNote && (
+                    <div className="text-xs mt-1 text-orange-500">{breakerNote}</div>
+                  )}
+                </div>
+              );
+            })
+          )}
+
+          <div className={`px-3 py-2 flex items-center justify-between text-xs ${mutedClasses}`}>
+            <span>{report ? `Checked ${formatTimeAgo(report.timestamp)}` : ''}</span>
+            <button
+              onClick={() => checkHealth(true)}
+              disabled={isChecking}
+              className={`p-1 rounded transition-colors disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-100'}`}
+              title="Check again"
+            >
+              <RefreshCw className={`w-3 h-3 ${isChecking ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+AIStatusPanel.displayName = 'AIStatusPanel';
+
+export default AIStatusPanel;
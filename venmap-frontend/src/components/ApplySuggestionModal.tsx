@@ -0,0 +1,106 @@
+import React, { memo, useMemo } from 'react';
+import { diffLines, countChanges } from '../utils/textDiff';
+
+export type SuggestionTarget = 'document' | 'form';
+
+interface ApplySuggestionModalProps {
+  sectionTitle: string;
+  target: SuggestionTarget;
+  formFieldLabel?: string; // Set when the section maps to a form field
+  currentContent: string;
+  suggestedContent: string;
+  isDarkMode: boolean;
+  onTargetChange: (target: SuggestionTarget) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ApplySuggestionModal: React.FC<ApplySuggestionModalProps> = memo(({
+  sectionTitle,
+  target,
+  formFieldLabel,
+  currentContent,
+  suggestedContent,
+  isDarkMode,
+  onTargetChange,
+  onConfirm,
+  onCancel
+}) => {
+  const diff = useMemo(() => diffLines(currentContent, suggestedContent), [currentContent, suggestedContent]);
+  const { added, removed } = countChanges(diff);
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+
+  const targetButtonClasses = (isActive: boolean) => `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isActive
+      ? 'bg-gradient-to-r from-pink-500 to-purple-600 text-white'
+      : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-3xl w-full max-h-[85vh] border flex flex-col`}>
+        <div className="p-6 pb-4 border-b border-white/10">
+          <h3 className="text-xl font-bold">Apply to {sectionTitle}</h3>
+          <p className={`text-sm mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            {currentContent.trim() ? 'Review the changes before replacing the current content.' : 'This section is empty and will be added.'}
+            {' '}
+            <span className="text-green-500">+{added}</span> / <span className="text-red-500">-{removed}</span> lines
+          </p>
+          {formFieldLabel && (
+            <div className="flex gap-2 mt-3">
+              <button onClick={() => onTargetChange('document')} className={targetButtonClasses(target === 'document')}>
+                Business plan document
+              </button>
+              <button onClick={() => onTargetChange('form')} className={targetButtonClasses(target === 'form')}>
+                Form field: {formFieldLabel}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 py-4">
+          <pre className={`text-xs leading-relaxed whitespace-pre-wrap break-words font-mono rounded-lg border ${
+            isDarkMode ? 'bg-gray-900/60 border-gray-700' : 'bg-gray-50 border-gray-200'
+          }`}>
+            {diff.map((line, index) => (
+              <div
+                key={index}
+                className={`px-3 ${
+                  line.type === 'added'
+                    ? isDarkMode ? 'bg-green-500/20 text-green-200' : 'bg-green-50 text-green-800'
+                    : line.type === 'removed'
+                      ? isDarkMode ? 'bg-red-500/20 text-red-200 line-through' : 'bg-red-50 text-red-800 line-through'
+                      : isDarkMode ? 'text-gray-400' : 'text-gray-600'
+                }`}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+              </div>
+            ))}
+          </pre>
+        </div>
+
+        <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+ApplySuggestionModal.displayName = 'ApplySuggestionModal';
+
+export default ApplySuggestionModal;
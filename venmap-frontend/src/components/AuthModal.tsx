@@ -0,0 +1,137 @@
+import React, { memo, useState } from 'react';
+import { Loader2, LogIn } from 'lucide-react';
+import { login, signup, type AuthSession, type AuthStatus } from '../utils/auth';
+
+interface AuthModalProps {
+  status: AuthStatus;
+  isDarkMode: boolean;
+  onAuthenticated: (session: AuthSession) => void;
+  onCancel: () => void;
+}
+
+// Sign in (or sign up) to a backend that requires accounts
+const AuthModal: React.FC<AuthModalProps> = memo(({
+  status,
+  isDarkMode,
+  onAuthenticated,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [inviteCode, setInviteCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const session = mode === 'login'
+        ? await login(email, password)
+        : await signup({ email, password, name, inviteCode: inviteCode || undefined });
+      onAuthenticated(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+  const labelClasses = `block text-sm font-bold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`;
+  const inputClasses = `w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500/50 ${
+    isDarkMode ? 'bg-gray-700/90 border-gray-600/50 text-white' : 'bg-white/90 border-gray-300/50 text-gray-900'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[110] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-md w-full border`}>
+        <div className="p-6 pb-4 border-b border-white/10">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <LogIn className="w-5 h-5" />
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </h3>
+          <p className={`text-sm mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+            This server requires an account to use its AI service and plan sync.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 py-4 space-y-4">
+            {mode === 'signup' && (
+              <div>
+                <label className={labelClasses}>Name</label>
+                <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClasses} />
+              </div>
+            )}
+            <div>
+              <label className={labelClasses}>Email</label>
+              <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} required autoFocus autoComplete="email" className={inputClasses} />
+            </div>
+            <div>
+              <label className={labelClasses}>Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                minLength={mode === 'signup' ? 8 : undefined}
+                autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+                className={inputClasses}
+              />
+            </div>
+            {mode === 'signup' && status.inviteCodeRequired && (
+              <div>
+                <label className={labelClasses}>Invite code</label>
+                <input type="text" value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} required className={inputClasses} />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {status.signupOpen && (
+              <button
+                type="button"
+                onClick={() => {
+                  setMode(mode === 'login' ? 'signup' : 'login');
+                  setError(null);
+                }}
+                className={`text-sm hover:underline ${isDarkMode ? 'text-pink-300' : 'text-pink-600'}`}
+              >
+                {mode === 'login' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+              </button>
+            )}
+          </div>
+
+          <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Not now
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+              {mode === 'login' ? 'Sign In' : 'Create Account'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+AuthModal.displayName = 'AuthModal';
+
+export default AuthModal;
@@ -1,8 +1,30 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { FileText, Loader2, Save, FolderOpen, Moon, Sun, Settings, Trash2, Edit3, ChevronDown, ChevronRight, CheckCircle, X, MessageCircle, Send, Bot, Key, Paperclip, Upload } from 'lucide-react';
+import { FileText, Loader2, Save, FolderOpen, Moon, Sun, Settings, Trash2, Edit3, ChevronDown, ChevronRight, CheckCircle, X, MessageCircle, Send, Bot, Key, Paperclip, Upload, Square, Calculator, Copy, Download, RefreshCw, LogIn, LogOut } from 'lucide-react';
 import { AIClient } from '../utils/apiClient';
+import { fetchAuthStatus, getAuthSession, setAuthSession, setUnauthorizedHandler, type AuthSession, type AuthStatus } from '../utils/auth';
+import type { ConversationMessage } from '../utils/conversation';
+import { applySectionSuggestion, detectSectionSuggestion, type SectionSuggestion } from '../utils/sectionSuggestions';
 import { SplitPaneView } from './SplitPaneView';
-import { StorageService, type BusinessPlan, type DocumentType, type DocumentContent } from '../utils/database';
+import AIStatusPanel from './AIStatusPanel';
+import ChatSessionMenu from './ChatSessionMenu';
+import ChatSuggestionAction from './ChatSuggestionAction';
+import ApplySuggestionModal, { type SuggestionTarget } from './ApplySuggestionModal';
+import AuthModal from './AuthModal';
+import FinancialModelEditor from './FinancialModelEditor';
+import PlanHistoryPanel from './PlanHistoryPanel';
+import PlanNameModal from './PlanNameModal';
+import WorkspaceImportModal from './WorkspaceImportModal';
+import { StorageService, type BusinessPlan, type ChatSession, type ChatMessage as StoredChatMessage, type DocumentType, type DocumentContent, type PlanSection, type PlanVersion, type PlanVersionSource } from '../utils/database';
+import { DEFAULT_PITCH_DECK_OPTIONS, MAX_SLIDES, MIN_SLIDES, buildPitchDeckPrompt, clampSlideCount, parsePitchDeckMarkdown, slidesToMarkdown, type PitchDeckOptions } from '../utils/pitchDeck';
+import { exportPitchDeckToPptx, type SlideTheme } from '../utils/pptxExport';
+import { exportMarkdownToDocx } from '../utils/docxExport';
+import { exportMarkdownToPdf } from '../utils/pdfExport';
+import { renderChartImages, renderMarkdownWithCharts } from '../utils/planCharts';
+import { renderChatMessage, renderMarkdown } from '../utils/markdown';
+import { DEFAULT_FINANCIAL_MODEL, describeFinancialModel, financialModelToMarkdown, stripFinancialTables, withFinancialTables, type FinancialModel } from '../utils/financialModel';
+import { exportPlanPackage, exportWorkspace, importPlanPackage, importWorkspace, isPlanNameTaken, parseImportFile, suggestPlanName, type PlanPackage, type WorkspaceBundle, type WorkspaceImportMode } from '../utils/workspaceBundle';
+import { PLAN_SYNC_ENABLED, PLAN_SYNC_INTERVAL_MS, deleteRemotePlan, syncPlans, type PlanSyncResult } from '../utils/planSync';
+import { PLAN_SECTIONS, assemblePlanMarkdown, buildSectionPrompt, getPlanPreamble, parseSectionsFromMarkdown, stripSectionHeading, syncSectionsFromMarkdown, type PlanSectionDefinition, type SectionAction } from '../utils/planSections';
 
 // Template interface
 interface Template {
@@ -264,13 +286,26 @@ const ApiKeyForm: React.FC<ApiKeyFormProps> = ({ isDarkMode, userApiKeys, onSave
   );
 };
 
+// Whether two sets of form data hold the same values, treating missing fields as empty
+const isSameFormData = (a: Record<string, string>, b: Record<string, string>) =>
+  [...new Set([...Object.keys(a), ...Object.keys(b)])].every(key => (a[key] || '') === (b[key] || ''));
+
 const BusinessPlanCreator = () => {
   const [isDarkMode, setIsDarkMode] = useState(false);
   const [showTemplateLibrary, setShowTemplateLibrary] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [currentTemplate, setCurrentTemplate] = useState('default');
   const [savedPlans, setSavedPlans] = useState<BusinessPlan[]>([]);
+  const [currentPlanId, setCurrentPlanId] = useState<number | null>(null); // Saved plan currently open, if any
+  // Id and name of the open plan for saves, which can run from stale closures mid-generation
+  const currentPlanRef = useRef<{ id: number; name: string } | null>(null);
+  const [planNameDialog, setPlanNameDialog] = useState<{ mode: 'rename' | 'copy'; planId: number; initialName: string } | null>(null);
   const [showSavedPlans, setShowSavedPlans] = useState(false);
+  const [pendingWorkspaceImport, setPendingWorkspaceImport] = useState<{ bundle: WorkspaceBundle; fileName: string } | null>(null);
+  const [isImportingWorkspace, setIsImportingWorkspace] = useState(false);
+  const [pendingPlanImport, setPendingPlanImport] = useState<PlanPackage | null>(null); // Shared plan whose name clashes with a saved plan
+  const importFileInputRef = useRef<HTMLInputElement>(null);
+  const [isSyncingPlans, setIsSyncingPlans] = useState(false);
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({ basic: true });
   const [toast, setToast] = useState<{type: string, message: string} | null>(null);
@@ -279,9 +314,14 @@ const BusinessPlanCreator = () => {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>([]);
+  const [activeChatSessionId, setActiveChatSessionId] = useState<number | null>(null);
   const [aiStatus, setAiStatus] = useState({ isConfigured: false, provider: 'Checking...', loading: true, developerMode: true });
   const [userApiKeys, setUserApiKeys] = useState({ claude: '', openai: '', provider: '' });
   const [showApiKeyModal, setShowApiKeyModal] = useState(false);
+  const [authStatus, setAuthStatus] = useState<AuthStatus | null>(null); // Null until the backend answers
+  const [authUser, setAuthUser] = useState<AuthSession['user'] | null>(null);
+  const [showAuthModal, setShowAuthModal] = useState(false);
   const chatMessagesRef = useRef<HTMLDivElement>(null);
   
   // Document upload state
@@ -292,6 +332,8 @@ const BusinessPlanCreator = () => {
   const toastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const chatbotTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const aiStatusTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   // Cleanup timeouts on unmount
   useEffect(() => {
@@ -299,6 +341,8 @@ const BusinessPlanCreator = () => {
       if (toastTimeoutRef.current) clearTimeout(toastTimeoutRef.current);
       if (chatbotTimeoutRef.current) clearTimeout(chatbotTimeoutRef.current);
       if (aiStatusTimeoutRef.current) clearTimeout(aiStatusTimeoutRef.current);
+      generationAbortRef.current?.abort();
+      chatAbortRef.current?.abort();
     };
   }, []);
   
@@ -328,6 +372,28 @@ const BusinessPlanCreator = () => {
   const [documents, setDocuments] = useState<DocumentContent>({});
   const [activeTab, setActiveTab] = useState<DocumentType>('businessPlan');
   const [isGenerating, setIsGenerating] = useState(false);
+  const [planSections, setPlanSections] = useState<PlanSection[]>([]);
+  const [generatingSectionKey, setGeneratingSectionKey] = useState<string | null>(null);
+  const [showPitchDeckOptions, setShowPitchDeckOptions] = useState(false);
+  const [pitchDeckOptions, setPitchDeckOptions] = useState<PitchDeckOptions>(DEFAULT_PITCH_DECK_OPTIONS);
+  const [financialModel, setFinancialModel] = useState<FinancialModel | null>(null);
+  const [isEditingDocument, setIsEditingDocument] = useState(false);
+  const [isDocumentDirty, setIsDocumentDirty] = useState(false); // Hand edits not yet saved
+  const [planVersions, setPlanVersions] = useState<PlanVersion[] | null>(null); // Set while the history panel is open
+  const [showFinancialModelEditor, setShowFinancialModelEditor] = useState(false);
+  const [pendingSuggestion, setPendingSuggestion] = useState<{ messageId: number; suggestion: SectionSuggestion; target: SuggestionTarget } | null>(null);
+  // What the last applied suggestion replaced, for undo. Only the one section
+  // or form field is put back, and only while it still holds the suggestion.
+  const [appliedSuggestion, setAppliedSuggestion] = useState<{
+    messageId: number;
+    target: SuggestionTarget;
+    title: string;
+    appliedContent: string;
+    sectionKey: string;
+    previousSection?: PlanSection; // Unset when the suggestion added the section
+    fieldKey?: keyof BusinessFormData;
+    previousValue?: string;
+  } | null>(null);
   
   const [error, setError] = useState('');
 
@@ -441,6 +507,9 @@ const BusinessPlanCreator = () => {
       setChatInput('');
       setPendingAttachments([]); // Clear pending attachments after sending
       setIsChatLoading(true);
+
+      const sessionId = await ensureChatSession(userMessage.message);
+      if (sessionId) await persistChatMessage(sessionId, userMessage);
       
       const aiClient = AIClient.getInstance();
       
@@ -469,14 +538,21 @@ const BusinessPlanCreator = () => {
         });
       }
       
-      const prompt = `You are a helpful business consultant with access to the user's business information. The user asked: "${userMessage.message}"
+      const instructions = `You are a helpful business consultant with access to the user's business information. ${context ? 'Use the provided business context to give specific, relevant advice. Reference specific details from their business plan when applicable.' : 'Provide general business advice since no specific business context is available.'}
 
-${context ? 'Use the provided business context to give specific, relevant advice. Reference specific details from their business plan when applicable.' : 'Provide general business advice since no specific business context is available.'}
+Please provide helpful, specific advice. Keep your response concise but actionable. Earlier turns of this conversation are included so you can handle follow-up requests.`;
 
-Please provide helpful, specific advice. Keep your response concise but actionable.`;
+      // Send the whole conversation so follow-ups like "make that shorter" work
+      const conversation: ConversationMessage[] = [...chatMessages, userMessage].map(message => ({
+        role: message.type === 'user' ? 'user' : 'assistant',
+        content: message.message
+      }));
+
+      const controller = new AbortController();
+      chatAbortRef.current = controller;
 
       try {
-        const response = await aiClient.generateResponse(prompt, context);
+        const response = await aiClient.generateChatResponse(conversation, `${instructions}\n\n${context}`.trim(), controller.signal);
         
         const botMessage: ChatMessage = {
           id: Date.now() + 1,
@@ -486,7 +562,13 @@ Please provide helpful, specific advice. Keep your response concise but actionab
         };
         
         setChatMessages(prev => [...prev, botMessage]);
+        if (sessionId) await persistChatMessage(sessionId, botMessage);
       } catch (apiError) {
+        if (controller.signal.aborted) {
+          showToast('Response stopped', 'success');
+          return;
+        }
+
         console.warn('AI API error:', apiError);
         const fallbackResponse = `I'm having trouble connecting to my AI service. Please check your backend server connection and API configuration.`;
         
@@ -502,10 +584,133 @@ Please provide helpful, specific advice. Keep your response concise but actionab
       console.error('Chat error:', error);
       showToast('Error sending message. Please try again.', 'error');
     } finally {
+      chatAbortRef.current = null;
       setIsChatLoading(false);
     }
   };
 
+  // Cancel the in-flight chat request
+  const stopChatMessage = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  // Chat sessions belong to the open plan; chats started before a plan is
+  // saved have no businessPlanId until the plan is saved
+  const loadChatSessions = async (planId: number | null): Promise<ChatSession[]> => {
+    try {
+      const sessions = planId
+        ? await StorageService.getChatSessions(planId)
+        : (await StorageService.getChatSessions()).filter(session => !session.businessPlanId);
+      setChatSessions(sessions);
+      return sessions;
+    } catch (error) {
+      console.error('Failed to load chat sessions:', error);
+      return [];
+    }
+  };
+
+  const toChatMessage = (message: StoredChatMessage): ChatMessage => ({
+    id: message.id!,
+    type: message.type === 'user' ? 'user' : 'bot',
+    message: message.message,
+    timestamp: new Date(message.timestamp),
+    attachments: message.attachments
+  });
+
+  // Passing null starts a fresh chat; the session is created on the first message
+  const selectChatSession = async (sessionId: number | null) => {
+    setActiveChatSessionId(sessionId);
+
+    if (!sessionId) {
+      setChatMessages([]); // Welcome message is re-added by the effect above
+      return;
+    }
+
+    try {
+      const messages = await StorageService.getChatMessages(sessionId);
+      setChatMessages(messages.map(toChatMessage));
+    } catch (error) {
+      console.error('Failed to load chat messages:', error);
+      showToast('Failed to load chat', 'error');
+    }
+  };
+
+  const ensureChatSession = async (firstMessage: string): Promise<number | null> => {
+    if (activeChatSessionId) return activeChatSessionId;
+
+    try {
+      const title = firstMessage.length > 40 ? `${firstMessage.slice(0, 40).trim()}...` : firstMessage;
+      const sessionId = await StorageService.createChatSession(title, currentPlanId ?? undefined);
+      setActiveChatSessionId(sessionId);
+      await loadChatSessions(currentPlanId);
+      return sessionId;
+    } catch (error) {
+      console.error('Failed to create chat session:', error);
+      return null;
+    }
+  };
+
+  // Saving is best-effort; a storage failure shouldn't interrupt the conversation
+  const persistChatMessage = async (sessionId: number, message: ChatMessage) => {
+    try {
+      await StorageService.addChatMessage(
+        sessionId,
+        message.type === 'user' ? 'user' : 'assistant',
+        message.message,
+        undefined,
+        message.attachments
+      );
+    } catch (error) {
+      console.error('Failed to save chat message:', error);
+    }
+  };
+
+  const renameChatSession = async (sessionId: number, title: string) => {
+    try {
+      await StorageService.updateChatSession(sessionId, { title });
+      await loadChatSessions(currentPlanId);
+    } catch (error) {
+      console.error('Failed to rename chat:', error);
+      showToast('Failed to rename chat', 'error');
+    }
+  };
+
+  const deleteChatSession = async (sessionId: number) => {
+    try {
+      await StorageService.deleteChatSession(sessionId);
+      if (sessionId === activeChatSessionId) {
+        await selectChatSession(null);
+      }
+      await loadChatSessions(currentPlanId);
+      showToast('Chat deleted', 'success');
+    } catch (error) {
+      console.error('Failed to delete chat:', error);
+      showToast('Failed to delete chat', 'error');
+    }
+  };
+
+  // Once a plan is saved, the chat started before saving moves over to it
+  const attachChatToPlan = async (planId: number) => {
+    setCurrentPlanId(planId);
+
+    const activeSession = chatSessions.find(session => session.id === activeChatSessionId);
+    if (activeSession && !activeSession.businessPlanId) {
+      try {
+        await StorageService.updateChatSession(activeSession.id!, { businessPlanId: planId });
+      } catch (error) {
+        console.error('Failed to attach chat to plan:', error);
+      }
+    }
+
+    await loadChatSessions(planId);
+  };
+
+  // Reopen the most recent chat of a loaded plan
+  const restorePlanChat = async (planId: number | null) => {
+    const sessions = await loadChatSessions(planId);
+    await selectChatSession(sessions[0]?.id ?? null);
+  };
+
   const handleChatKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -604,32 +809,54 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     }
   };
 
-  const renderChatMessage = (messageText: string) => {
-    // Format bot messages for better readability
-    const formattedMessage = messageText
-      // Convert **text** to bold
-      .replace(/\*\*(.*?)\*\*/g, '<strong class="font-semibold">$1</strong>')
-      // Convert bullet points to proper list items with better spacing
-      .replace(/^[•\-*]\s+(.+)$/gm, '<li class="ml-4 mb-2">$1</li>')
-      // Convert numbered lists
-      .replace(/^\d+\.\s+(.+)$/gm, '<li class="ml-4 mb-2">$1</li>')
-      // Group consecutive list items into proper ul tags
-      .replace(/(<li class="ml-4 mb-2">.*?<\/li>\s*)+/gs, (match: string) => {
-        return `<ul class="list-disc list-outside space-y-2 my-4 pl-4">${match}</ul>`;
-      })
-      // Convert paragraphs - split on double line breaks
-      .split('\n\n')
-      .map((paragraph: string) => {
-        if (paragraph.includes('<ul class=')) {
-          return paragraph; // Already formatted as list
-        }
-        return `<p class="mb-3 leading-relaxed">${paragraph.replace(/\n/g, '<br>')}</p>`;
-      })
-      .join('');
-    
-    return formattedMessage;
+  // Reuse the stored sign-in if the backend still accepts it
+  const restoreAuthSession = async () => {
+    setAuthSession(await StorageService.getSetting<AuthSession | null>('authSession', null));
+
+    const status = await fetchAuthStatus();
+    setAuthStatus(status);
+    if (!status?.authRequired) return;
+
+    if (status.user) {
+      setAuthUser(status.user);
+    } else {
+      setAuthSession(null);
+      await StorageService.setSetting('authSession', null);
+      setShowAuthModal(true);
+    }
+  };
+
+  const handleAuthenticated = async (session: AuthSession) => {
+    setAuthSession(session);
+    setAuthUser(session.user);
+    setShowAuthModal(false);
+    await StorageService.setSetting('authSession', session);
+    showToast(`Signed in as ${session.user.email}`, 'success');
+
+    checkAIStatus();
+    syncSavedPlans();
   };
 
+  const signOut = async () => {
+    setAuthSession(null);
+    setAuthUser(null);
+    await StorageService.setSetting('authSession', null);
+    showToast('Signed out', 'success');
+    checkAIStatus();
+  };
+
+  // The backend rejected our token (expired, or the account is gone)
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      setAuthSession(null);
+      setAuthUser(null);
+      StorageService.setSetting('authSession', null);
+      fetchAuthStatus().then(setAuthStatus);
+      setShowAuthModal(true);
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
   // Load saved data on component mount and migrate from localStorage
   useEffect(() => {
     const initializeDatabase = async () => {
@@ -656,10 +883,20 @@ Please provide helpful, specific advice. Keep your response concise but actionab
         const darkMode = await StorageService.getSetting('darkMode', false);
         setIsDarkMode(darkMode);
         
+        // Restore the sign-in before the API key change below re-checks the backend
+        await restoreAuthSession();
+
         // Load API keys
         const apiKeys = await StorageService.getSetting('userApiKeys', { claude: '', openai: '', provider: '' });
         setUserApiKeys(apiKeys);
         
+        // Load pitch deck preferences
+        const deckOptions = await StorageService.getSetting('pitchDeckOptions', DEFAULT_PITCH_DECK_OPTIONS);
+        setPitchDeckOptions({ ...DEFAULT_PITCH_DECK_OPTIONS, ...deckOptions });
+
+        // Load chats that aren't attached to a saved plan yet
+        await loadChatSessions(null);
+        
         // Load uploaded documents - now using per-message attachments
         // const documents = await StorageService.getDocuments();
         // setUploadedDocuments(documents);
@@ -822,22 +1059,34 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     }, 300); // Match animation duration
   };
 
-  const autoSavePlan = async () => {
-    if (!formData.businessName || formData.businessName.trim().length < 3 || !documents.businessPlan) return;
+  // Overrides let callers save content they just produced, which this render's state doesn't see yet
+  const autoSavePlan = async (
+    overrides: Partial<Pick<BusinessPlan, 'data' | 'documents' | 'sections' | 'financialModel'>> = {},
+    source: PlanVersionSource = 'autosave'
+  ) => {
+    const data = overrides.data || formData;
+    const planDocuments = overrides.documents || documents;
+    if (!data.businessName || data.businessName.trim().length < 3 || !planDocuments.businessPlan) return;
     
     try {
       const timestamp = new Date().toISOString();
       const planData = {
-        name: formData.businessName,
+        id: currentPlanRef.current?.id,
+        name: currentPlanRef.current?.name || data.businessName,
         template: currentTemplate,
-        data: formData,
-        documents,
+        data,
+        documents: planDocuments,
+        sections: overrides.sections || planSections,
+        financialModel: overrides.financialModel || financialModel || undefined,
         activeTab,
         createdAt: timestamp,
         updatedAt: timestamp
       };
       
-      await StorageService.saveBusinessPlan(planData);
+      const planId = await StorageService.saveBusinessPlan(planData, source);
+      currentPlanRef.current = { id: planId, name: planData.name };
+      await attachChatToPlan(planId);
+      setIsDocumentDirty(false);
       
       // Refresh saved plans list
       const plans = await StorageService.getBusinessPlans();
@@ -916,6 +1165,15 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     { name: 'Word Document', icon: '📃', format: 'docx' }
   ];
 
+  // Pitch decks can also be exported as slides, with the current colour mode listed first
+  const pptExportOptions = [
+    { name: 'PowerPoint (Light)', icon: '📊', format: 'ppt-light' },
+    { name: 'PowerPoint (Dark)', icon: '📊', format: 'ppt-dark' }
+  ];
+  const activeExportOptions = activeTab === 'pitchDeck'
+    ? [...(isDarkMode ? [...pptExportOptions].reverse() : pptExportOptions), ...exportOptions]
+    : exportOptions;
+
   const fieldLabels = {
     businessName: 'Business Name',
     industry: 'Industry',
@@ -973,45 +1231,179 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     setFormData(newFormData);
   };
 
-  const savePlan = async () => {
+  const savePlan = async (successMessage = 'Plan saved successfully!') => {
     try {
-      const planName = formData.businessName || 'Untitled Plan';
+      const planName = currentPlanRef.current?.name || formData.businessName || 'Untitled Plan';
       
       const timestamp = new Date().toISOString();
       const planData = {
+        id: currentPlanRef.current?.id,
         name: planName,
         template: currentTemplate,
         data: formData,
         documents,
+        sections: planSections,
+        financialModel: financialModel || undefined,
         activeTab,
         createdAt: timestamp,
         updatedAt: timestamp
       };
       
-      await StorageService.saveBusinessPlan(planData);
+      const planId = await StorageService.saveBusinessPlan(planData, 'manual');
+      currentPlanRef.current = { id: planId, name: planName };
+      await attachChatToPlan(planId);
+      setIsDocumentDirty(false);
       
       // Refresh saved plans list
       const plans = await StorageService.getBusinessPlans();
       setSavedPlans(plans);
       
-      showToast('Plan saved successfully!', 'success');
+      showToast(successMessage, 'success');
+      syncSavedPlans();
     } catch (error) {
       console.error('Failed to save plan:', error);
       showToast('Failed to save plan', 'error');
     }
   };
 
-  const loadPlan = (plan: BusinessPlan) => {
+  // Puts a plan's content on screen
+  const showPlanContent = (plan: BusinessPlan) => {
     setFormData(plan.data as BusinessFormData);
     setDocuments(plan.documents || {});
+    // Plans saved before sections existed are split on their ## headings
+    setPlanSections(plan.sections || parseSectionsFromMarkdown(plan.documents?.businessPlan || ''));
+    setFinancialModel(plan.financialModel || null);
+    setAppliedSuggestion(null);
+    setIsEditingDocument(false);
+    setIsDocumentDirty(false);
     setActiveTab(plan.activeTab || 'businessPlan');
     setCurrentTemplate(plan.template);
+  };
+
+  const loadPlan = (plan: BusinessPlan) => {
+    showPlanContent(plan);
     setShowSavedPlans(false);
+    setCurrentPlanId(plan.id ?? null);
+    currentPlanRef.current = plan.id ? { id: plan.id, name: plan.name } : null;
+    restorePlanChat(plan.id ?? null);
+  };
+
+  // Save what's on screen as a new plan and carry on editing the copy
+  const savePlanAsCopy = async (name: string) => {
+    try {
+      const timestamp = new Date().toISOString();
+      const planId = await StorageService.saveBusinessPlan({
+        name,
+        template: currentTemplate,
+        data: formData,
+        documents,
+        sections: planSections,
+        financialModel: financialModel || undefined,
+        copiedFromId: currentPlanRef.current?.id,
+        activeTab,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      }, 'manual');
+
+      // The chat stays with the original plan; the copy starts without one
+      currentPlanRef.current = { id: planId, name };
+      setCurrentPlanId(planId);
+      setIsDocumentDirty(false);
+      await loadChatSessions(planId);
+      await selectChatSession(null);
+
+      setSavedPlans(await StorageService.getBusinessPlans());
+      showToast(`Saved as "${name}"`, 'success');
+    } catch (error) {
+      console.error('Failed to save plan as copy:', error);
+      showToast('Failed to save copy', 'error');
+    }
+  };
+
+  const renamePlan = async (planId: number, name: string) => {
+    try {
+      await StorageService.renameBusinessPlan(planId, name);
+      if (currentPlanRef.current?.id === planId) {
+        currentPlanRef.current = { id: planId, name };
+      }
+      setSavedPlans(await StorageService.getBusinessPlans());
+      showToast(`Renamed to "${name}"`, 'success');
+    } catch (error) {
+      console.error('Failed to rename plan:', error);
+      showToast('Failed to rename plan', 'error');
+    }
+  };
+
+  const confirmPlanName = async (name: string) => {
+    if (!planNameDialog) return;
+    const { mode, planId } = planNameDialog;
+    setPlanNameDialog(null);
+
+    if (mode === 'rename') {
+      await renamePlan(planId, name);
+    } else if (planId === currentPlanId) {
+      await savePlanAsCopy(name);
+    } else {
+      try {
+        await StorageService.copyBusinessPlan(planId, name);
+        setSavedPlans(await StorageService.getBusinessPlans());
+        showToast(`Copied as "${name}"`, 'success');
+      } catch (error) {
+        console.error('Failed to copy plan:', error);
+        showToast('Failed to copy plan', 'error');
+      }
+    }
+  };
+
+  const openVersionHistory = async () => {
+    if (!currentPlanId) {
+      showToast('Save the plan to start its version history', 'error');
+      return;
+    }
+
+    try {
+      setPlanVersions(await StorageService.getPlanVersions(currentPlanId));
+    } catch (error) {
+      console.error('Failed to load version history:', error);
+      showToast('Failed to load version history', 'error');
+    }
+  };
+
+  // Restoring saves a new version, so the state it replaced stays in the history
+  const restoreVersion = async (version: PlanVersion) => {
+    const sections = version.sections || parseSectionsFromMarkdown(version.documents.businessPlan || '');
+    setFormData(version.data as BusinessFormData);
+    setDocuments(version.documents);
+    setPlanSections(sections);
+    setFinancialModel(version.financialModel || null);
+    setIsEditingDocument(false);
+    setPlanVersions(null);
+
+    await autoSavePlan({
+      data: version.data,
+      documents: version.documents,
+      sections,
+      financialModel: version.financialModel
+    }, 'restore');
+    showToast(`Restored version from ${new Date(version.createdAt).toLocaleString()}`, 'success');
   };
 
   const deletePlan = async (planId: number) => {
     try {
+      // Delete the backend copy first so a sync in between can't bring the plan back
+      const remoteId = savedPlans.find(plan => plan.id === planId)?.remoteId;
+      if (PLAN_SYNC_ENABLED && remoteId) {
+        await deleteRemotePlan(remoteId);
+      }
       await StorageService.deleteBusinessPlan(planId);
+
+      // The plan's chats were deleted with it
+      if (planId === currentPlanId) {
+        setCurrentPlanId(null);
+        currentPlanRef.current = null;
+        await loadChatSessions(null);
+        await selectChatSession(null);
+      }
       
       // Refresh saved plans list
       const plans = await StorageService.getBusinessPlans();
@@ -1024,13 +1416,160 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     }
   };
 
-  const generateBusinessPlan = async () => {
-    setIsGenerating(true);
-    setError('');
-    // Clear business plan document and switch to it
-    setDocuments(prev => ({ ...prev, businessPlan: '' }));
-    setActiveTab('businessPlan');
-    
+  const describeSyncConflicts = ({ conflicts }: PlanSyncResult) => {
+    if (conflicts.length === 1) {
+      const [{ planName, kept }] = conflicts;
+      return `"${planName}" was also changed in another browser. Kept the newer ${kept === 'local' ? 'copy from this browser' : 'copy from the server'}; the other is in Version History.`;
+    }
+    return `${conflicts.length} plans were also changed in another browser. Kept the newest copy of each; the others are in Version History.`;
+  };
+
+  // Pushes local plan changes to the backend and pulls changes made elsewhere
+  const syncSavedPlans = async (announce = false) => {
+    if (!PLAN_SYNC_ENABLED || (authStatus?.authRequired && !getAuthSession())) return;
+    setIsSyncingPlans(true);
+
+    try {
+      // The open plan as saved here before the sync, to spot form edits not saved yet
+      const openPlanId = currentPlanRef.current?.id;
+      const savedOpenPlan = openPlanId ? await StorageService.getBusinessPlan(openPlanId) : undefined;
+
+      const result = await syncPlans();
+      if (result.pushed + result.pulled + result.deleted > 0) {
+        setSavedPlans(await StorageService.getBusinessPlans());
+      }
+
+      // Bring the open plan up to date unless that would throw away work in progress
+      if (openPlanId && result.changedPlanIds.includes(openPlanId)) {
+        const openPlan = await StorageService.getBusinessPlan(openPlanId);
+        if (!openPlan) {
+          setCurrentPlanId(null);
+          currentPlanRef.current = null;
+          showToast('The open plan was deleted in another browser. Save it to keep a copy.', 'error');
+          return;
+        }
+        const hasUnsavedFormEdits = !savedOpenPlan || !isSameFormData(formData, savedOpenPlan.data);
+        if (isGenerating || isDocumentDirty || hasUnsavedFormEdits) {
+          showToast('The open plan was changed in another browser. Reopen it from Saved Plans to see the changes.', 'error');
+          return;
+        }
+        showPlanContent(openPlan);
+        currentPlanRef.current = { id: openPlanId, name: openPlan.name };
+      }
+
+      if (result.conflicts.length > 0) {
+        showToast(describeSyncConflicts(result), 'error');
+      } else if (announce) {
+        showToast('Plans synced', 'success');
+      }
+    } catch (error) {
+      console.error('Plan sync failed:', error);
+      if (announce) showToast('Plan sync failed', 'error');
+    } finally {
+      setIsSyncingPlans(false);
+    }
+  };
+
+  // The interval below always calls the latest syncSavedPlans, not the first render's
+  const syncSavedPlansRef = useRef(syncSavedPlans);
+  useEffect(() => {
+    syncSavedPlansRef.current = syncSavedPlans;
+  });
+
+  // Sync once the local data has loaded, then periodically
+  useEffect(() => {
+    if (!PLAN_SYNC_ENABLED || !isDataLoaded) return;
+
+    syncSavedPlansRef.current();
+    const interval = setInterval(() => syncSavedPlansRef.current(), PLAN_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isDataLoaded]);
+
+  const exportWorkspaceBundle = async () => {
+    try {
+      const bundle = await exportWorkspace();
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(JSON.stringify(bundle, null, 2), `venturemap-workspace-${date}.json`, 'application/json');
+      showToast(`Exported ${bundle.data.businessPlans.length} plans and ${bundle.data.chatSessions.length} chats`, 'success');
+    } catch (error) {
+      console.error('Failed to export workspace:', error);
+      showToast('Failed to export workspace', 'error');
+    }
+  };
+
+  const exportPlan = async (plan: BusinessPlan) => {
+    try {
+      const pkg = await exportPlanPackage(plan.id!);
+      const filename = plan.name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'plan';
+      downloadFile(JSON.stringify(pkg, null, 2), `${filename}.venturemap.json`, 'application/json');
+      showToast(`Exported "${plan.name}"`, 'success');
+    } catch (error) {
+      console.error('Failed to export plan:', error);
+      showToast('Failed to export plan', 'error');
+    }
+  };
+
+  const importSharedPlan = async (pkg: PlanPackage, name: string) => {
+    setPendingPlanImport(null);
+    try {
+      await importPlanPackage(pkg, name);
+      setSavedPlans(await StorageService.getBusinessPlans());
+      showToast(`Imported "${name}"`, 'success');
+    } catch (error) {
+      console.error('Failed to import plan:', error);
+      showToast('Failed to import plan', 'error');
+    }
+  };
+
+  // Accepts either a workspace export or a single-plan package
+  const handleImportFile = async (file: File) => {
+    try {
+      const imported = parseImportFile(await file.text());
+      if (imported.kind === 'workspace') {
+        setPendingWorkspaceImport({ bundle: imported.bundle, fileName: file.name });
+      } else if (isPlanNameTaken(imported.package.plan.name, savedPlans)) {
+        setPendingPlanImport(imported.package);
+      } else {
+        await importSharedPlan(imported.package, imported.package.plan.name);
+      }
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to read import file', 'error');
+    }
+  };
+
+  const importWorkspaceBundle = async (mode: WorkspaceImportMode) => {
+    if (!pendingWorkspaceImport) return;
+    setIsImportingWorkspace(true);
+
+    try {
+      const imported = await importWorkspace(pendingWorkspaceImport.bundle, mode);
+      setSavedPlans(await StorageService.getBusinessPlans());
+
+      if (mode === 'replace') {
+        // The open plan and its chats were cleared; pick up the imported settings too
+        setCurrentPlanId(null);
+        currentPlanRef.current = null;
+        await loadChatSessions(null);
+        await selectChatSession(null);
+        setIsDarkMode(await StorageService.getSetting('darkMode', false));
+        setPitchDeckOptions({ ...DEFAULT_PITCH_DECK_OPTIONS, ...await StorageService.getSetting('pitchDeckOptions', DEFAULT_PITCH_DECK_OPTIONS) });
+      } else {
+        await loadChatSessions(currentPlanId);
+      }
+
+      setPendingWorkspaceImport(null);
+      showToast(`Imported ${imported.businessPlans} plans and ${imported.chatSessions} chats`, 'success');
+    } catch (error) {
+      console.error('Failed to import workspace:', error);
+      showToast('Failed to import workspace', 'error');
+    } finally {
+      setIsImportingWorkspace(false);
+    }
+  };
+
+  // Business information shared by every section prompt
+  const getBusinessInfo = () => {
     const relevantFields = templates[currentTemplate].fields.filter(field => 
       formData[field] && formData[field].trim() !== ''
     );
@@ -1044,96 +1583,243 @@ Please provide helpful, specific advice. Keep your response concise but actionab
     const securityInfo = formData.securityConsiderations ? `\nSecurity Considerations: ${formData.securityConsiderations}` : '';
     const integrationInfo = formData.integrationNeeds ? `\nIntegration Needs: ${formData.integrationNeeds}` : '';
 
-    const prompt = `Create a comprehensive business plan based on this information:
+    return `${formContent}${complianceInfo}${technicalInfo}${securityInfo}${integrationInfo}`;
+  };
 
-${formContent}${complianceInfo}${technicalInfo}${securityInfo}${integrationInfo}
+  // Hand edits from the document editor; the plan's sections follow the markdown
+  const handleDocumentChange = (content: string) => {
+    setDocuments(prev => ({ ...prev, [activeTab]: content }));
+    if (activeTab === 'businessPlan') {
+      setPlanSections(prev => syncSectionsFromMarkdown(content, prev));
+    }
+    setIsDocumentDirty(true);
+  };
 
-Format the business plan using proper markdown with the following structure. IMPORTANT: For any tabular data (like financial projections, timelines, or comparisons), use HTML table format instead of Markdown tables:
+  // Keep the structured sections and the assembled Business Plan document in sync
+  const applyPlanSections = (sections: PlanSection[]) => {
+    setPlanSections(sections);
+    setDocuments(prev => ({
+      ...prev,
+      businessPlan: assemblePlanMarkdown(formData.businessName, sections, getPlanPreamble(prev.businessPlan || ''))
+    }));
+  };
 
-# Business Plan: ${formData.businessName || '[Business Name]'}
+  // The Business Plan document for sections, keeping the open plan's preamble
+  const assembleBusinessPlan = (sections: PlanSection[]) =>
+    assemblePlanMarkdown(formData.businessName, sections, getPlanPreamble(documents.businessPlan || ''));
 
-## Executive Summary
-Brief overview highlighting key points, mission, and value proposition.
+  // Chat replies that rewrite a plan section, keyed by message id
+  const chatSuggestions = useMemo(() => {
+    const suggestions: Record<number, SectionSuggestion> = {};
+    let question = '';
+    let previous: SectionSuggestion | null = null;
 
-## Problem Statement
-Clear definition of the problem being solved and market opportunity.
+    chatMessages.forEach(message => {
+      if (message.type === 'user') {
+        question = message.message;
+        return;
+      }
+      const suggestion = question ? detectSectionSuggestion(message.message, question, planSections, previous) : null;
+      if (suggestion) {
+        suggestions[message.id] = suggestion;
+        previous = suggestion;
+      }
+    });
 
-## Solution & Value Proposition
-Detailed description of the solution and unique value offered.
+    return suggestions;
+  }, [chatMessages, planSections]);
 
-## Market Analysis
-Target market, size, trends, and competitive landscape analysis.
+  // Form field a suggestion can be written to instead of the document
+  const getSuggestionField = (suggestion: SectionSuggestion) =>
+    PLAN_SECTIONS.find(definition => definition.key === suggestion.sectionKey)?.fields[0] as keyof BusinessFormData | undefined;
 
-## Business Model
-Revenue streams, pricing strategy, and how the business makes money.
+  const getSuggestionCurrentContent = (suggestion: SectionSuggestion, target: SuggestionTarget) => {
+    if (target === 'form') {
+      const field = getSuggestionField(suggestion);
+      return field ? formData[field] || '' : '';
+    }
+    return planSections.find(section => section.key === suggestion.sectionKey)?.content || '';
+  };
 
-## Marketing & Sales Strategy
-Customer acquisition, marketing channels, and sales process.
+  const openSuggestionPreview = (messageId: number) => {
+    const suggestion = chatSuggestions[messageId];
+    if (!suggestion) return;
 
-## Operations Plan
-Day-to-day operations, workflow, resources, and logistics.
+    // Before a plan is generated the form is the natural place for the text
+    const target: SuggestionTarget = planSections.length === 0 && getSuggestionField(suggestion) ? 'form' : 'document';
+    setPendingSuggestion({ messageId, suggestion, target });
+  };
 
-## Management Team
-Key personnel, roles, experience, and organizational structure.
+  const confirmSuggestion = () => {
+    if (!pendingSuggestion) return;
+    const { messageId, suggestion, target } = pendingSuggestion;
+
+    if (target === 'form') {
+      const fieldKey = getSuggestionField(suggestion);
+      if (!fieldKey) return;
+      setAppliedSuggestion({ messageId, target, title: suggestion.title, appliedContent: suggestion.content, sectionKey: suggestion.sectionKey, fieldKey, previousValue: formData[fieldKey] });
+      setFormData(prev => ({ ...prev, [fieldKey]: suggestion.content }));
+    } else {
+      const sections = applySectionSuggestion(planSections, suggestion);
+      setAppliedSuggestion({
+        messageId,
+        target,
+        title: suggestion.title,
+        appliedContent: suggestion.content,
+        sectionKey: suggestion.sectionKey,
+        previousSection: planSections.find(section => section.key === suggestion.sectionKey)
+      });
+      applyPlanSections(sections);
+      autoSavePlan({ sections, documents: { ...documents, businessPlan: assembleBusinessPlan(sections) } });
+    }
 
-## Technology & Technical Requirements
-Technical infrastructure, development needs, and technology stack.
+    setPendingSuggestion(null);
+    showToast(`Applied to ${suggestion.title}`, 'success');
+  };
 
-## Security & Compliance
-Data protection measures, regulatory compliance, and security protocols.
+  const undoSuggestion = () => {
+    if (!appliedSuggestion) return;
+    const { target, title, appliedContent, sectionKey, previousSection, fieldKey, previousValue } = appliedSuggestion;
+    setAppliedSuggestion(null);
 
-## Financial Projections
-Revenue forecasts, expense projections, and financial milestones.
+    if (target === 'form' && fieldKey) {
+      if (formData[fieldKey] !== appliedContent) {
+        showToast(`${title} has changed since the suggestion was applied`, 'error');
+        return;
+      }
+      setFormData(prev => ({ ...prev, [fieldKey]: previousValue || '' }));
+    } else {
+      const current = planSections.find(section => section.key === sectionKey);
+      if (current?.content.trim() !== appliedContent.trim()) {
+        showToast(`${title} has changed since the suggestion was applied`, 'error');
+        return;
+      }
 
-## Funding Requirements
-Capital needed, use of funds, and expected returns for investors.
+      // Leave the rest of the plan as it is now
+      const sections = previousSection
+        ? planSections.map(section => section.key === sectionKey ? previousSection : section)
+        : planSections.filter(section => section.key !== sectionKey);
+      applyPlanSections(sections);
+      autoSavePlan({ sections, documents: { ...documents, businessPlan: assembleBusinessPlan(sections) } });
+    }
 
-## Risk Analysis
-Potential risks, mitigation strategies, and contingency plans.
+    showToast(`Reverted ${title}`, 'success');
+  };
 
-## Implementation Timeline
-Key milestones, phases, and timeline for business launch and growth.
+  // Store the model and refresh the computed tables in an existing Financial Projections section
+  const saveFinancialModel = async (model: FinancialModel) => {
+    setFinancialModel(model);
+    setShowFinancialModelEditor(false);
 
-## Appendices
-Supporting documents, charts, and additional relevant information.
+    const financialSection = planSections.find(section => section.key === 'financialProjections');
+    if (!financialSection) {
+      await autoSavePlan({ financialModel: model });
+      showToast('Financial model saved', 'success');
+      return;
+    }
 
-Make it professional, detailed, and actionable. Include specific recommendations and next steps where appropriate.
+    const sections = planSections.map(section => section.key === 'financialProjections'
+      ? { ...section, content: withFinancialTables(section.content, model), updatedAt: new Date().toISOString() }
+      : section
+    );
+    applyPlanSections(sections);
+    await autoSavePlan({
+      sections,
+      financialModel: model,
+      documents: { ...documents, businessPlan: assembleBusinessPlan(sections) }
+    });
+    showToast('Financial model saved and projections updated', 'success');
+  };
 
-CRITICAL FORMATTING RULE: Any data that should be presented in table format (financial projections, timelines, feature comparisons, etc.) must use proper HTML table syntax with <table>, <thead>, <tbody>, <tr>, <th>, and <td> tags. Add class="business-table" to all table elements. Do NOT use Markdown table syntax with pipes (|) and dashes (-) as these will not render correctly.
+  // Stream a single section, reporting the text so far through onProgress
+  const streamSection = async (
+    definition: Pick<PlanSectionDefinition, 'title' | 'description'> & { key?: string },
+    action: SectionAction,
+    currentContent: string,
+    signal: AbortSignal,
+    onProgress: (content: string) => void,
+    fresh = false // Skip the backend's response cache
+  ) => {
+    const businessInfo = getBusinessInfo();
+    // With a financial model the AI only writes commentary; the figures come from the model
+    const model = definition.key === 'financialProjections' ? financialModel : null;
+    const prompt = model
+      ? buildSectionPrompt(definition, formData.businessName, businessInfo, action, stripFinancialTables(currentContent), describeFinancialModel(model))
+      : buildSectionPrompt(definition, formData.businessName, businessInfo, action, currentContent);
+
+    let streamed = '';
+    const response = await AIClient.getInstance().generateResponseStream(prompt, `Business Information:\n${businessInfo}`, (token) => {
+      streamed += token;
+      onProgress(stripSectionHeading(streamed, definition.title));
+    }, { signal, throwOnError: true, task: 'plan', fresh });
+
+    const content = stripSectionHeading(response, definition.title).trim();
+    return model ? withFinancialTables(content, model) : content;
+  };
 
-Example table format:
-<table class="business-table">
-<thead>
-<tr><th>Item</th><th>Year 1</th><th>Year 2</th></tr>
-</thead>
-<tbody>
-<tr><td>Revenue</td><td>$100K</td><td>$200K</td></tr>
-</tbody>
-</table>`;
+  const generateBusinessPlan = async () => {
+    setIsGenerating(true);
+    setError('');
+    // Clear business plan document and switch to it
+    setPlanSections([]);
+    setDocuments(prev => ({ ...prev, businessPlan: '' }));
+    setActiveTab('businessPlan');
+    
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let sections: PlanSection[] = [];
 
     try {
-      const aiClient = AIClient.getInstance();
-      
-      const context = `Business Information:\n${formContent}${complianceInfo}${technicalInfo}${securityInfo}${integrationInfo}`;
-      
-      const response = await aiClient.generateResponse(prompt, context);
-      
-      // Simulate streaming effect
-      const words = response.split(' ');
-      let fullResponse = '';
-      for (let i = 0; i < words.length; i++) {
-        fullResponse += words[i] + ' ';
-        setDocuments(prev => ({ ...prev, businessPlan: fullResponse }));
-        await new Promise(resolve => setTimeout(resolve, 20));
+      // Generate each section in turn, rendering tokens as they arrive
+      for (const definition of PLAN_SECTIONS) {
+        setGeneratingSectionKey(definition.key);
+        sections = [...sections, { key: definition.key, title: definition.title, content: '', updatedAt: new Date().toISOString() }];
+        const sectionIndex = sections.length - 1;
+
+        const setSectionContent = (content: string) => {
+          sections = sections.map((section, index) =>
+            index === sectionIndex ? { ...section, content, updatedAt: new Date().toISOString() } : section
+          );
+          applyPlanSections(sections);
+        };
+
+        const content = await streamSection(definition, 'regenerate', '', controller.signal, setSectionContent);
+        setSectionContent(content);
       }
       
       // Auto-save after successful AI generation
       setIsGenerating(false);
-      await autoSavePlan();
+      setGeneratingSectionKey(null);
+      await autoSavePlan({
+        sections,
+        documents: { ...documents, businessPlan: assemblePlanMarkdown(formData.businessName, sections) }
+      }, 'generation');
       return;
-    } catch {
-      // Create a fallback business plan if AI is not available
-      const fallbackResponse = `# Business Plan: ${formData.businessName || 'Your Business'}
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep the sections that were written before the user stopped generation
+        setIsGenerating(false);
+        setGeneratingSectionKey(null);
+        showToast('Generation stopped', 'success');
+        return;
+      }
+
+      console.error('Error generating business plan:', error);
+
+      if (sections.length > 1) {
+        // Keep the sections generated before the failure and mark the one that failed
+        const failed = sections[sections.length - 1];
+        const message = (error as Error).message || 'Unknown error';
+        sections = [...sections.slice(0, -1), {
+          ...failed,
+          content: `${failed.content ? `${failed.content}\n\n` : ''}_This section could not be generated (${message}). Use Regenerate to try again._`,
+          updatedAt: new Date().toISOString()
+        }];
+        applyPlanSections(sections);
+        setError(`Generation stopped at ${failed.title}: ${message}. The sections written before it were kept.`);
+      } else {
+        // Create a fallback business plan if AI is not available
+        const fallbackResponse = `# Business Plan: ${formData.businessName || 'Your Business'}
 
 ## Executive Summary
 This comprehensive business plan outlines the strategy and vision for ${formData.businessName || 'your business'} in the ${formData.industry || 'selected industry'} sector. Our mission is to provide innovative solutions that address key market needs while building a sustainable and profitable enterprise.
@@ -1160,7 +1846,7 @@ ${formData.operationsPlan || 'Our operational strategy emphasizes efficiency, sc
 ${formData.managementTeam || 'Our leadership team brings together extensive experience in the industry, with proven track records in business development, operations, and strategic planning. The team is well-positioned to execute our business strategy successfully.'}
 
 ## Financial Projections
-${formData.financialProjections || 'Financial projections indicate strong growth potential with projected revenues increasing significantly over the next 3-5 years. Break-even is anticipated within 18-24 months, with positive cash flow following shortly thereafter.'}
+${formData.financialProjections || (financialModel ? 'The projections below are calculated from the financial model.' : 'Financial projections indicate strong growth potential with projected revenues increasing significantly over the next 3-5 years. Break-even is anticipated within 18-24 months, with positive cash flow following shortly thereafter.')}${financialModel ? `\n\n${financialModelToMarkdown(financialModel)}` : ''}
 
 ## Funding Requirements
 ${formData.fundingRequest || 'We are seeking investment to support our growth initiatives, including product development, marketing, and operational scaling. The funding will enable us to capture market opportunities and achieve our strategic objectives.'}
@@ -1189,15 +1875,81 @@ ${formData.fundingRequest || 'We are seeking investment to support our growth in
 
 This business plan provides a roadmap for success and positions us to capitalize on market opportunities while building a sustainable and profitable enterprise.`;
 
-      setDocuments(prev => ({ ...prev, businessPlan: fallbackResponse }));
-      setError('AI service not configured. Using fallback business plan template. Please add your API key to .env file for enhanced AI features.');
-      console.error('Error generating business plan: AI service not configured');
+        sections = parseSectionsFromMarkdown(fallbackResponse);
+        applyPlanSections(sections);
+        setError('AI service not configured. Using fallback business plan template. Please add your API key to .env file for enhanced AI features.');
+      }
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+      }
     }
     
     setIsGenerating(false);
+    setGeneratingSectionKey(null);
     
     // Auto-save the completed business plan
-    await autoSavePlan();
+    await autoSavePlan({
+      sections,
+      documents: { ...documents, businessPlan: assemblePlanMarkdown(formData.businessName, sections) }
+    }, 'generation');
+  };
+
+  // Regenerate, expand or shorten a single section without touching the rest of the plan
+  const handleSectionAction = async (sectionKey: string, action: SectionAction) => {
+    const original = planSections.find(section => section.key === sectionKey);
+    if (!original || isGenerating) return;
+
+    const definition = PLAN_SECTIONS.find(def => def.key === sectionKey) || {
+      key: sectionKey,
+      title: original.title,
+      description: `The ${original.title} section of the business plan.`
+    };
+
+    setIsGenerating(true);
+    setGeneratingSectionKey(sectionKey);
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let sections = planSections;
+
+    const setSectionContent = (content: string) => {
+      sections = sections.map(section =>
+        section.key === sectionKey ? { ...section, content, updatedAt: new Date().toISOString() } : section
+      );
+      applyPlanSections(sections);
+    };
+
+    try {
+      // Asking for a single section again should give a new draft, not the cached one
+      const content = await streamSection(definition, action, original.content, controller.signal, setSectionContent, true);
+      setSectionContent(content);
+      await autoSavePlan({
+        sections,
+        documents: { ...documents, businessPlan: assembleBusinessPlan(sections) }
+      }, 'generation');
+    } catch (error) {
+      // Put the previous version back rather than leaving a half-written section
+      setSectionContent(original.content);
+
+      if (controller.signal.aborted) {
+        showToast('Generation stopped', 'success');
+      } else {
+        console.error(`Failed to ${action} section:`, error);
+        showToast(`Failed to ${action} ${original.title}`, 'error');
+      }
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+      }
+      setIsGenerating(false);
+      setGeneratingSectionKey(null);
+    }
+  };
+
+  // Cancel the in-flight streaming generation, keeping what has arrived so far
+  const stopGenerating = () => {
+    generationAbortRef.current?.abort();
   };
 
   const generatePitchDeck = async () => {
@@ -1206,12 +1958,45 @@ This business plan provides a roadmap for success and positions us to capitalize
       return;
     }
 
+    setShowPitchDeckOptions(false);
     setIsGenerating(true);
+    setError('');
+    StorageService.setSetting('pitchDeckOptions', pitchDeckOptions);
     
     // Create new pitch deck tab and switch to it
+    setDocuments(prev => ({ ...prev, pitchDeck: '' }));
     setActiveTab('pitchDeck');
-    
-    const pitchDeckContent = `---
+
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    let pitchDeck: string;
+
+    try {
+      const prompt = buildPitchDeckPrompt(documents.businessPlan, formData.businessName, pitchDeckOptions);
+
+      // Render slides as they stream in
+      let streamedDeck = '';
+      const response = await AIClient.getInstance().generateResponseStream(prompt, `Business Information:\n${getBusinessInfo()}`, (token) => {
+        streamedDeck += token;
+        setDocuments(prev => ({ ...prev, pitchDeck: streamedDeck }));
+      }, { signal: controller.signal, throwOnError: true, task: 'pitchDeck' });
+
+      // Normalise numbering and formatting; a response without slides falls back to the template
+      const slides = parsePitchDeckMarkdown(response);
+      if (slides.length === 0) {
+        throw new Error('AI response did not contain any slides');
+      }
+      pitchDeck = slidesToMarkdown(slides);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep the slides that were streamed before the user stopped generation
+        setIsGenerating(false);
+        showToast('Generation stopped', 'success');
+        return;
+      }
+
+      // Create a fallback pitch deck if AI is not available
+      const fallbackDeck = `---
 # Slide 1: Title Slide
 **${formData.businessName || '[Business Name]'}**
 *${formData.solution ? formData.solution.substring(0, 100) + '...' : 'Innovative Solutions for Market Needs'}*
@@ -1283,13 +2068,20 @@ This business plan provides a roadmap for success and positions us to capitalize
 
 Thank you for your consideration!`;
 
-    try {
-      setDocuments(prev => ({ ...prev, pitchDeck: pitchDeckContent }));
-    } catch {
-      setError('Failed to generate pitch deck. Please try again.');
+      pitchDeck = fallbackDeck;
+      setError('AI service not configured. Using fallback pitch deck template. Please add your API key to .env file for enhanced AI features.');
+      console.error('Error generating pitch deck:', error);
+    } finally {
+      if (generationAbortRef.current === controller) {
+        generationAbortRef.current = null;
+      }
     }
-    
+
+    setDocuments(prev => ({ ...prev, pitchDeck }));
     setIsGenerating(false);
+
+    // Auto-save the completed pitch deck alongside the plan
+    await autoSavePlan({ documents: { ...documents, pitchDeck } }, 'generation');
   };
 
   const handleExport = (format: string) => {
@@ -1313,8 +2105,9 @@ Thank you for your consideration!`;
       case 'notion':
         exportToNotion(content);
         break;
-      case 'ppt':
-        exportToPowerPoint(content, businessName);
+      case 'ppt-light':
+      case 'ppt-dark':
+        exportToPowerPoint(content, businessName, format === 'ppt-dark' ? 'dark' : 'light');
         break;
       case 'docx':
         exportToWord(content, businessName);
@@ -1325,65 +2118,19 @@ Thank you for your consideration!`;
     setShowExportMenu(false);
   };
 
-  const exportToPDF = (content: string, filename: string) => {
+  // Charts are only drawn for business plan tables
+  const getExportCharts = async (content: string) =>
+    activeTab === 'businessPlan' ? renderChartImages(content) : [];
+
+  const exportToPDF = async (content: string, filename: string) => {
     try {
-      // Create HTML content for PDF
-      const htmlContent = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <title>${filename}</title>
-          <style>
-            body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; line-height: 1.6; color: #333; }
-            h1 { color: #2563eb; border-bottom: 2px solid #2563eb; padding-bottom: 10px; }
-            h2 { color: #1e40af; margin-top: 30px; }
-            h3 { color: #1e3a8a; }
-            p { margin-bottom: 10px; }
-            ul { margin-bottom: 15px; }
-            li { margin-bottom: 5px; }
-            .slide-break { page-break-before: always; border-top: 2px solid #e5e7eb; margin: 40px 0 20px 0; padding-top: 20px; }
-            @media print { 
-              .slide-break { page-break-before: always; }
-              body { -webkit-print-color-adjust: exact; }
-            }
-          </style>
-        </head>
-        <body>
-          ${renderMarkdown(content)}
-          <script>
-            window.onload = function() {
-              window.print();
-              // Try to close after print dialog
-              window.onbeforeprint = function() {};
-              window.onafterprint = function() {
-                setTimeout(function() {
-                  window.close();
-                }, 100);
-              };
-            }
-          </script>
-        </body>
-        </html>
-      `;
-      
-      // Create blob and object URL for cleaner approach
-      const blob = new Blob([htmlContent], { type: 'text/html' });
-      const url = URL.createObjectURL(blob);
-      
-      // Open in new window
-      const printWindow = window.open(url, '_blank', 'width=800,height=600');
-      
-      if (!printWindow) {
-        showToast('Please allow popups for PDF export', 'error');
-        URL.revokeObjectURL(url);
-        return;
-      }
-      
-      // Clean up URL after a delay
-      setTimeout(() => {
-        URL.revokeObjectURL(url);
-      }, 5000);
-      
+      const pageCount = exportMarkdownToPdf(content, {
+        filename,
+        businessName: formData.businessName || 'Your Business',
+        documentTitle: activeTab === 'businessPlan' ? 'Business Plan' : 'Pitch Deck',
+        charts: await getExportCharts(content)
+      });
+      showToast(`PDF downloaded with ${pageCount} pages.`, 'success');
     } catch (error) {
       console.error('PDF export error:', error);
       showToast('PDF export failed', 'error');
@@ -1410,7 +2157,7 @@ Thank you for your consideration!`;
         </head>
         <body>
           <div style="font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; line-height: 1.6;">
-            ${renderMarkdown(content)}
+            ${activeTab === 'businessPlan' ? renderMarkdownWithCharts(content, renderMarkdown) : renderMarkdown(content)}
           </div>
         </body>
         </html>
@@ -1473,44 +2220,36 @@ Thank you for your consideration!`;
     });
   };
 
-  const exportToPowerPoint = (content: string, filename: string) => {
-    // Convert to a structured format for PowerPoint
-    const slides = content.split('---').filter((slide: string) => slide.trim());
-    let pptContent = `${filename} - Presentation Outline\n\n`;
-    
-    slides.forEach((slide: string, index: number) => {
-      const lines = slide.trim().split('\n');
-      const title = lines.find((line: string) => line.startsWith('#'))?.replace(/^#+\s*/, '') || `Slide ${index + 1}`;
-      pptContent += `SLIDE ${index + 1}: ${title}\n`;
-      pptContent += '='.repeat(50) + '\n';
-      
-      lines.forEach((line: string) => {
-        if (!line.startsWith('#')) {
-          pptContent += line + '\n';
-        }
+  const exportToPowerPoint = async (content: string, filename: string, theme: SlideTheme) => {
+    try {
+      const slideCount = await exportPitchDeckToPptx(content, {
+        filename,
+        businessName: formData.businessName || 'Pitch Deck',
+        theme
       });
-      pptContent += '\n\n';
-    });
-    
-    downloadFile(pptContent, `${filename}-presentation-outline.txt`, 'text/plain');
-    showToast('Presentation outline downloaded. Copy content into PowerPoint slides.', 'success');
-  };
-
-  const exportToWord = (content: string, filename: string) => {
-    // Create RTF format which can be opened by Word
-    const rtfContent = `{\\rtf1\\ansi\\deff0 {\\fonttbl {\\f0 Times New Roman;}}
-\\f0\\fs24 ${content.replace(/\n/g, '\\par ')
-  .replace(/\*\*(.*?)\*\*/g, '{\\b $1}')
-  .replace(/\*(.*?)\*/g, '{\\i $1}')
-  .replace(/^# (.*$)/gm, '{\\fs32\\b $1}\\par ')
-  .replace(/^## (.*$)/gm, '{\\fs28\\b $1}\\par ')
-  .replace(/^### (.*$)/gm, '{\\fs24\\b $1}\\par ')}}`;
-    
-    downloadFile(rtfContent, `${filename}.rtf`, 'application/rtf');
-    showToast('RTF file downloaded. Can be opened in Microsoft Word.', 'success');
+      showToast(`PowerPoint downloaded with ${slideCount} slides.`, 'success');
+    } catch (error) {
+      console.error('PowerPoint export error:', error);
+      showToast('PowerPoint export failed', 'error');
+    }
+  };
+
+  const exportToWord = async (content: string, filename: string) => {
+    try {
+      const blob = await exportMarkdownToDocx(content, {
+        businessName: formData.businessName || 'Your Business',
+        documentTitle: activeTab === 'businessPlan' ? 'Business Plan' : 'Pitch Deck',
+        charts: await getExportCharts(content)
+      });
+      downloadFile(blob, `${filename}.docx`, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      showToast('Word document downloaded.', 'success');
+    } catch (error) {
+      console.error('Word export error:', error);
+      showToast('Word export failed', 'error');
+    }
   };
 
-  const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
     const element = document.createElement('a');
     const file = new Blob([content], { type: mimeType });
     element.href = URL.createObjectURL(file);
@@ -1527,69 +2266,6 @@ Thank you for your consideration!`;
     showToast(`${docType} copied to clipboard!`, 'success');
   };
 
-  const renderMarkdown = (text: string) => {
-    if (!text) return '';
-    
-    // Convert Markdown tables to HTML tables
-    const convertTables = (text: string) => {
-      const tableRegex = /(\|[^\n]+\|\n\|[-|\s]+\|\n(?:\|[^\n]+\|\n?)*)/g;
-      
-      return text.replace(tableRegex, (match) => {
-        const lines = match.trim().split('\n');
-        if (lines.length < 3) return match;
-        
-        const headerRow = lines[0];
-        const dataRows = lines.slice(2);
-        
-        // Parse header
-        const headers = headerRow.split('|').slice(1, -1).map(h => h.trim());
-        
-        // Parse data rows
-        const rows = dataRows.map(row => 
-          row.split('|').slice(1, -1).map(cell => cell.trim())
-        );
-        
-        // Build HTML table
-        let html = '<table class="business-table w-full border-collapse border border-gray-300 mb-4">\n';
-        html += '<thead class="bg-gray-50">\n<tr>\n';
-        headers.forEach(header => {
-          html += `<th class="border border-gray-300 px-4 py-2 text-left font-semibold">${header}</th>\n`;
-        });
-        html += '</tr>\n</thead>\n<tbody>\n';
-        
-        rows.forEach(row => {
-          html += '<tr>\n';
-          row.forEach(cell => {
-            html += `<td class="border border-gray-300 px-4 py-2">${cell}</td>\n`;
-          });
-          html += '</tr>\n';
-        });
-        
-        html += '</tbody>\n</table>';
-        return html;
-      });
-    };
-    
-    // Apply table conversion first
-    const processedText = convertTables(text);
-    
-    // Simple markdown to HTML conversion - let prose handle the styling
-    const html = processedText
-      .replace(/^---$/gm, '<hr>')
-      .replace(/^# (.*$)/gm, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gm, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gm, '<h3>$1</h3>')
-      .replace(/^\* (.*$)/gm, '<li>$1</li>')
-      .replace(/^- (.*$)/gm, '<li>$1</li>')
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/\n\n/g, '</p><p>')
-      .replace(/(<li.*?<\/li>)/gs, '<ul>$1</ul>');
-
-    return `<p>${html}</p>`;
-  };
-
-
   const themeClasses = isDarkMode 
     ? 'bg-gradient-to-br from-gray-900 via-purple-900 to-pink-900 text-white' 
     : 'bg-gradient-to-br from-pink-100 via-purple-50 to-indigo-100 text-gray-900';
@@ -1709,7 +2385,17 @@ Thank you for your consideration!`;
                 <X className="w-6 h-6" />
               </button>
               <h1 className="text-lg font-bold">✨ AI Business Assistant</h1>
-              <div className="w-10 h-10" /> {/* Spacer for balance */}
+              <ChatSessionMenu
+                sessions={chatSessions}
+                activeSessionId={activeChatSessionId}
+                isDarkMode={isDarkMode}
+                isDisabled={isChatLoading}
+                onSelect={selectChatSession}
+                onNew={() => selectChatSession(null)}
+                onRename={renameChatSession}
+                onDelete={deleteChatSession}
+                variant="overlay"
+              />
             </div>
             
             {/* Mobile Chat Messages */}
@@ -1759,6 +2445,15 @@ Thank you for your consideration!`;
                               dangerouslySetInnerHTML={{ __html: renderChatMessage(message.message) }}
                             />
                           )}
+                          {message.type === 'bot' && chatSuggestions[message.id] && (
+                            <ChatSuggestionAction
+                              sectionTitle={chatSuggestions[message.id].title}
+                              isApplied={appliedSuggestion?.messageId === message.id}
+                              isDarkMode={isDarkMode}
+                              onApply={() => openSuggestionPreview(message.id)}
+                              onUndo={undoSuggestion}
+                            />
+                          )}
                         </div>
                         <div className={`text-xs mt-2 opacity-70 ${
                           message.type === 'user' 
@@ -1866,13 +2561,23 @@ Thank you for your consideration!`;
                     <Paperclip className="w-4 h-4" />
                   </button>
                 </div>
-                <button
-                  onClick={sendChatMessage}
-                  disabled={!chatInput.trim() || isChatLoading}
-                  className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 disabled:opacity-50 transition-all text-sm font-medium shadow-lg"
-                >
-                  <Send className="w-4 h-4" />
-                </button>
+                {isChatLoading ? (
+                  <button
+                    onClick={stopChatMessage}
+                    className="px-6 py-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all text-sm font-medium shadow-lg"
+                    title="Stop response"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={sendChatMessage}
+                    disabled={!chatInput.trim()}
+                    className="px-6 py-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 disabled:opacity-50 transition-all text-sm font-medium shadow-lg"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
               </div>
               
               {/* Hidden file input */}
@@ -1906,14 +2611,25 @@ Thank you for your consideration!`;
               </h1>
               <h2 className="text-2xl font-semibold mb-2">Business Plan Creator</h2>
               <p className="text-sm opacity-80">Transform your ideas into comprehensive business plans</p>
-              <div className="flex items-center gap-2 mt-2">
-                <div className={`w-2 h-2 rounded-full ${aiStatus.loading ? 'bg-yellow-500' : aiStatus.isConfigured ? 'bg-green-500' : 'bg-orange-500'}`}></div>
-                <span className="text-xs opacity-70">
-                  AI: {aiStatus.loading ? 'Checking...' : aiStatus.isConfigured ? `${aiStatus.provider} Connected` : 'Not Configured'}
-                </span>
-              </div>
+              {authUser && (
+                <p className="text-xs opacity-70 mt-2">Signed in as {authUser.name || authUser.email}</p>
+              )}
+              <AIStatusPanel
+                status={aiStatus}
+                usesOwnKeys={!!userApiKeys.provider}
+                isDarkMode={isDarkMode}
+              />
             </div>
             <div className="flex gap-2">
+              {authStatus?.authRequired && (
+                <button
+                  onClick={() => (authUser ? signOut() : setShowAuthModal(true))}
+                  className={`p-2 rounded-lg backdrop-blur-sm border transition-colors ${cardClasses}`}
+                  title={authUser ? `Sign out ${authUser.email}` : 'Sign in'}
+                >
+                  {authUser ? <LogOut className="w-5 h-5" /> : <LogIn className="w-5 h-5" />}
+                </button>
+              )}
               <button
                 onClick={() => setIsDarkMode(!isDarkMode)}
                 className={`p-2 rounded-lg backdrop-blur-sm border transition-colors ${cardClasses}`}
@@ -1972,13 +2688,124 @@ Thank you for your consideration!`;
           </div>
         )}
 
+        {/* Version History Panel */}
+        {planVersions && (
+          <PlanHistoryPanel
+            versions={planVersions}
+            currentDocuments={documents}
+            isDarkMode={isDarkMode}
+            onRestore={restoreVersion}
+            onClose={() => setPlanVersions(null)}
+          />
+        )}
+
+        {/* Financial Model Editor */}
+        {showFinancialModelEditor && (
+          <FinancialModelEditor
+            model={financialModel || DEFAULT_FINANCIAL_MODEL}
+            isDarkMode={isDarkMode}
+            onSave={saveFinancialModel}
+            onCancel={() => setShowFinancialModelEditor(false)}
+          />
+        )}
+
+        {/* Apply Suggestion Modal */}
+        {pendingSuggestion && (
+          <ApplySuggestionModal
+            sectionTitle={pendingSuggestion.suggestion.title}
+            target={pendingSuggestion.target}
+            formFieldLabel={(() => {
+              const field = getSuggestionField(pendingSuggestion.suggestion);
+              return field ? fieldLabels[field as keyof typeof fieldLabels] : undefined;
+            })()}
+            currentContent={getSuggestionCurrentContent(pendingSuggestion.suggestion, pendingSuggestion.target)}
+            suggestedContent={pendingSuggestion.suggestion.content}
+            isDarkMode={isDarkMode}
+            onTargetChange={(target) => setPendingSuggestion(prev => prev && { ...prev, target })}
+            onConfirm={confirmSuggestion}
+            onCancel={() => setPendingSuggestion(null)}
+          />
+        )}
+
+        {/* Pitch Deck Options Modal */}
+        {showPitchDeckOptions && (
+          <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+            <div className={`${cardClasses} backdrop-blur-lg rounded-xl p-6 max-w-md w-full border`}>
+              <h3 className="text-xl font-bold mb-4">Pitch Deck Options</h3>
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="pitch-deck-slide-count" className={`block text-sm font-bold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                    Number of slides
+                  </label>
+                  <input
+                    id="pitch-deck-slide-count"
+                    type="number"
+                    min={MIN_SLIDES}
+                    max={MAX_SLIDES}
+                    value={pitchDeckOptions.slideCount}
+                    onChange={(e) => setPitchDeckOptions(prev => ({ ...prev, slideCount: Number(e.target.value) }))}
+                    onBlur={() => setPitchDeckOptions(prev => ({ ...prev, slideCount: clampSlideCount(prev.slideCount) }))}
+                    className={`w-full px-3 py-2 backdrop-blur-sm border rounded-md focus:outline-none focus:ring-2 transition-all ${inputClasses}`}
+                  />
+                  <p className={`text-xs mt-1 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>Between {MIN_SLIDES} and {MAX_SLIDES} slides</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={pitchDeckOptions.includeSpeakerNotes}
+                    onChange={(e) => setPitchDeckOptions(prev => ({ ...prev, includeSpeakerNotes: e.target.checked }))}
+                    className="accent-pink-500"
+                  />
+                  Include speaker notes
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={pitchDeckOptions.includeVisuals}
+                    onChange={(e) => setPitchDeckOptions(prev => ({ ...prev, includeVisuals: e.target.checked }))}
+                    className="accent-pink-500"
+                  />
+                  Suggest a visual for each slide
+                </label>
+              </div>
+              <div className="flex justify-end gap-2 mt-6">
+                <button
+                  onClick={() => setShowPitchDeckOptions(false)}
+                  className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    setPitchDeckOptions(prev => ({ ...prev, slideCount: clampSlideCount(prev.slideCount) }));
+                    generatePitchDeck();
+                  }}
+                  className="px-4 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition-all"
+                >
+                  Generate Pitch Deck
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Saved Plans Modal */}
         {showSavedPlans && (
           <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
             <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-2xl w-full max-h-[80vh] border flex flex-col`}>
               {/* Fixed header */}
-              <div className="p-6 pb-4 border-b border-white/10">
+              <div className="p-6 pb-4 border-b border-white/10 flex items-center justify-between">
                 <h3 className="text-xl font-bold">Saved Plans</h3>
+                {PLAN_SYNC_ENABLED && (
+                  <button
+                    onClick={() => syncSavedPlans(true)}
+                    disabled={isSyncingPlans}
+                    className="p-2 hover:bg-gray-100/20 rounded-lg transition-colors disabled:opacity-50"
+                    title="Sync plans with the server"
+                  >
+                    <RefreshCw className={`w-5 h-5 ${isSyncingPlans ? 'animate-spin' : ''}`} />
+                  </button>
+                )}
               </div>
               
               {/* Scrollable content */}
@@ -1990,12 +2817,38 @@ Thank you for your consideration!`;
                     {savedPlans.map((plan) => (
                       <div key={plan.id} className={`p-4 rounded-lg border ${cardClasses} flex items-center justify-between hover:bg-white/5 cursor-pointer transition-colors`} onClick={() => loadPlan(plan)}>
                         <div className="flex-1">
-                          <div className="font-semibold">{plan.name}</div>
+                          <div className="font-semibold">
+                            {plan.name}
+                            {plan.id === currentPlanId && (
+                              <span className={`ml-2 text-xs font-normal ${isDarkMode ? 'text-pink-300' : 'text-pink-600'}`}>Open</span>
+                            )}
+                          </div>
                           <div className="text-sm opacity-75">
                             {templates[plan.template]?.name} • {new Date(plan.createdAt).toLocaleDateString()}
                           </div>
                         </div>
                         <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+                          <button
+                            onClick={() => exportPlan(plan)}
+                            className="p-2 hover:bg-gray-100/20 rounded transition-colors"
+                            title="Export Plan"
+                          >
+                            <Download className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => plan.id && setPlanNameDialog({ mode: 'rename', planId: plan.id, initialName: plan.name })}
+                            className="p-2 hover:bg-gray-100/20 rounded transition-colors"
+                            title="Rename Plan"
+                          >
+                            <Edit3 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => plan.id && setPlanNameDialog({ mode: 'copy', planId: plan.id, initialName: `${plan.name} (Copy)` })}
+                            className="p-2 hover:bg-gray-100/20 rounded transition-colors"
+                            title="Duplicate Plan"
+                          >
+                            <Copy className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => plan.id && deletePlan(plan.id)}
                             className="p-2 text-red-600 hover:bg-red-50/20 rounded transition-colors"
@@ -2012,7 +2865,34 @@ Thank you for your consideration!`;
               
               {/* Fixed footer */}
               <div className="p-6 pt-4 border-t border-white/10">
-                <div className="flex justify-end">
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={exportWorkspaceBundle}
+                    className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 ${isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    title="Download all plans, chats and settings as a JSON file"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export workspace
+                  </button>
+                  <button
+                    onClick={() => importFileInputRef.current?.click()}
+                    className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 ${isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+                    title="Import a workspace export or a shared plan"
+                  >
+                    <Upload className="w-4 h-4" />
+                    Import
+                  </button>
+                  <input
+                    ref={importFileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = ''; // Allow picking the same file again
+                      if (file) handleImportFile(file);
+                    }}
+                    className="hidden"
+                  />
                   <button
                     onClick={() => setShowSavedPlans(false)}
                     className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
@@ -2025,6 +2905,50 @@ Thank you for your consideration!`;
           </div>
         )}
 
+        {planNameDialog && (
+          <PlanNameModal
+            title={planNameDialog.mode === 'rename' ? 'Rename Plan' : 'Save as Copy'}
+            initialName={planNameDialog.initialName}
+            confirmLabel={planNameDialog.mode === 'rename' ? 'Rename' : 'Save Copy'}
+            isDarkMode={isDarkMode}
+            onConfirm={confirmPlanName}
+            onCancel={() => setPlanNameDialog(null)}
+          />
+        )}
+
+        {showAuthModal && authStatus && (
+          <AuthModal
+            status={authStatus}
+            isDarkMode={isDarkMode}
+            onAuthenticated={handleAuthenticated}
+            onCancel={() => setShowAuthModal(false)}
+          />
+        )}
+
+        {pendingPlanImport && (
+          <PlanNameModal
+            title="Import Plan"
+            description={`A plan named "${pendingPlanImport.plan.name}" already exists. Choose a name for the imported plan.`}
+            initialName={suggestPlanName(pendingPlanImport.plan.name, savedPlans)}
+            confirmLabel="Import"
+            isNameTaken={(name) => isPlanNameTaken(name, savedPlans)}
+            isDarkMode={isDarkMode}
+            onConfirm={(name) => importSharedPlan(pendingPlanImport, name)}
+            onCancel={() => setPendingPlanImport(null)}
+          />
+        )}
+
+        {pendingWorkspaceImport && (
+          <WorkspaceImportModal
+            bundle={pendingWorkspaceImport.bundle}
+            fileName={pendingWorkspaceImport.fileName}
+            isDarkMode={isDarkMode}
+            isImporting={isImportingWorkspace}
+            onImport={importWorkspaceBundle}
+            onCancel={() => setPendingWorkspaceImport(null)}
+          />
+        )}
+
         {/* Toast Notification */}
         {toast && (
           <div className={`fixed top-4 right-4 z-[200] flex items-center gap-2 px-4 py-3 rounded-lg shadow-lg backdrop-blur-lg border transition-all duration-300 ${
@@ -2141,6 +3065,17 @@ Thank you for your consideration!`;
                           )}
                         </div>
                       ))}
+                      {sectionKey === 'financial' && (
+                        <button
+                          onClick={() => setShowFinancialModelEditor(true)}
+                          className={`w-full py-2 px-3 border rounded-md text-sm font-medium flex items-center justify-center gap-2 transition-colors ${
+                            isDarkMode ? 'border-pink-500/50 text-pink-200 hover:bg-pink-500/10' : 'border-pink-300 text-pink-700 hover:bg-pink-50'
+                          }`}
+                        >
+                          <Calculator className="w-4 h-4" />
+                          {financialModel ? 'Edit financial model' : 'Build financial model'}
+                        </button>
+                      )}
                     </div>
                   )}
                 </div>
@@ -2170,7 +3105,7 @@ Thank you for your consideration!`;
             
             {documents.businessPlan && (
               <button
-                onClick={generatePitchDeck}
+                onClick={() => setShowPitchDeckOptions(true)}
                 disabled={isGenerating}
                 className="px-4 py-3 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-md hover:from-purple-700 hover:to-indigo-700 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed flex items-center gap-2 transition-all shadow-lg"
               >
@@ -2180,13 +3115,26 @@ Thank you for your consideration!`;
             )}
             
             <button
-              onClick={savePlan}
+              onClick={() => savePlan()}
               disabled={!formData.businessName}
               className="px-4 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-all flex items-center gap-2 shadow-lg"
             >
               <Save className="w-4 h-4" />
               Save
             </button>
+            {currentPlanId && (
+              <button
+                onClick={() => setPlanNameDialog({
+                  mode: 'copy',
+                  planId: currentPlanId,
+                  initialName: `${currentPlanRef.current?.name || formData.businessName || 'Untitled Plan'} (Copy)`
+                })}
+                className="px-3 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-all flex items-center shadow-lg"
+                title="Save as copy"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+            )}
           </div>
 
           {error && (
@@ -2222,7 +3170,29 @@ Thank you for your consideration!`;
         onDrop={handleDrop}
         onTabChange={handleTabChange}
         onTabClose={handleTabClose}
-        exportOptions={exportOptions}
+        onStopGenerating={stopGenerating}
+        onStopChat={stopChatMessage}
+        chatSessions={chatSessions}
+        chatSuggestions={chatSuggestions}
+        appliedSuggestionMessageId={appliedSuggestion?.messageId ?? null}
+        onApplySuggestion={openSuggestionPreview}
+        onUndoSuggestion={undoSuggestion}
+        activeChatSessionId={activeChatSessionId}
+        onSelectChatSession={selectChatSession}
+        onNewChatSession={() => selectChatSession(null)}
+        onRenameChatSession={renameChatSession}
+        onDeleteChatSession={deleteChatSession}
+        planSections={planSections}
+        generatingSectionKey={generatingSectionKey}
+        onSectionAction={handleSectionAction}
+        businessName={formData.businessName}
+        exportOptions={activeExportOptions}
+        isEditingDocument={isEditingDocument}
+        isDocumentDirty={isDocumentDirty}
+        onToggleEditDocument={() => setIsEditingDocument(prev => !prev)}
+        onDocumentChange={handleDocumentChange}
+        onSaveDocument={() => savePlan('Document saved')}
+        onShowHistory={currentPlanId ? openVersionHistory : undefined}
         renderMarkdown={renderMarkdown}
         renderChatMessage={renderChatMessage}
       />
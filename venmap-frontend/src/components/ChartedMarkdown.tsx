@@ -0,0 +1,37 @@
+import React, { memo, useMemo } from 'react';
+import { renderChartSvg, splitAtChartTables } from '../utils/planCharts';
+
+interface ChartedMarkdownProps {
+  markdown: string;
+  isDarkMode: boolean;
+  renderMarkdown: (text: string) => string;
+}
+
+// Rendered markdown with a chart beneath every table that has year/month data
+const ChartedMarkdown: React.FC<ChartedMarkdownProps> = memo(({
+  markdown,
+  isDarkMode,
+  renderMarkdown
+}) => {
+  const segments = useMemo(() => splitAtChartTables(markdown), [markdown]);
+
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <React.Fragment key={index}>
+          <div dangerouslySetInnerHTML={{ __html: renderMarkdown(segment.markdown) }} />
+          {segment.chart && (
+            <figure
+              className="not-prose my-4 [&>svg]:w-full [&>svg]:h-auto"
+              dangerouslySetInnerHTML={{ __html: renderChartSvg(segment.chart, { isDarkMode }) }}
+            />
+          )}
+        </React.Fragment>
+      ))}
+    </>
+  );
+});
+
+ChartedMarkdown.displayName = 'ChartedMarkdown';
+
+export default ChartedMarkdown;
@@ -0,0 +1,160 @@
+import React, { memo, useEffect, useRef, useState } from 'react';
+import { History, Plus, Edit3, Trash2, Check, X } from 'lucide-react';
+import type { ChatSession } from '../utils/database';
+
+interface ChatSessionMenuProps {
+  sessions: ChatSession[];
+  activeSessionId: number | null;
+  isDarkMode: boolean;
+  isDisabled: boolean; // A reply is in flight, so switching would misplace it
+  onSelect: (sessionId: number) => void;
+  onNew: () => void;
+  onRename: (sessionId: number, title: string) => void;
+  onDelete: (sessionId: number) => void;
+  variant?: 'default' | 'overlay'; // overlay = white icons on the gradient mobile header
+}
+
+const ChatSessionMenu: React.FC<ChatSessionMenuProps> = memo(({
+  sessions,
+  activeSessionId,
+  isDarkMode,
+  isDisabled,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  variant = 'default'
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close the list when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const startEditing = (session: ChatSession) => {
+    setEditingId(session.id!);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId !== null && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const iconButtonClasses = variant === 'overlay'
+    ? 'p-2 hover:bg-white/20 rounded-lg transition-colors disabled:opacity-40'
+    : `p-1.5 rounded-lg transition-colors disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-700 text-gray-300' : 'hover:bg-gray-100 text-gray-600'}`;
+
+  return (
+    <div ref={menuRef} className="relative flex items-center gap-1">
+      <button
+        onClick={onNew}
+        disabled={isDisabled}
+        className={iconButtonClasses}
+        title="New chat"
+      >
+        <Plus className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={iconButtonClasses}
+        title="Chat history"
+      >
+        <History className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute right-0 top-full mt-2 w-72 max-h-80 overflow-y-auto rounded-lg shadow-xl border z-50 ${
+          isDarkMode ? 'bg-gray-800 border-gray-700 text-gray-100' : 'bg-white border-gray-200 text-gray-900'
+        }`}>
+          {sessions.length === 0 ? (
+            <p className={`p-4 text-sm text-center ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>No saved chats yet</p>
+          ) : (
+            sessions.map(session => (
+              <div
+                key={session.id}
+                className={`group flex items-center gap-2 px-3 py-2 text-sm border-b last:border-b-0 ${
+                  isDarkMode ? 'border-gray-700' : 'border-gray-100'
+                } ${session.id === activeSessionId ? (isDarkMode ? 'bg-pink-500/20' : 'bg-pink-50') : isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50'}`}
+              >
+                {editingId === session.id ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className={`flex-1 min-w-0 px-2 py-1 rounded border text-sm ${
+                        isDarkMode ? 'bg-gray-700 border-gray-600' : 'bg-white border-gray-300'
+                      } focus:outline-none focus:ring-1 focus:ring-pink-500`}
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-500 hover:bg-green-500/10 rounded" title="Save name">
+                      <Check className="w-3 h-3" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-1 opacity-70 hover:opacity-100 rounded" title="Cancel">
+                      <X className="w-3 h-3" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => {
+                        onSelect(session.id!);
+                        setIsOpen(false);
+                      }}
+                      disabled={isDisabled}
+                      className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                    >
+                      <div className="truncate font-medium">{session.title}</div>
+                      <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                        {new Date(session.updatedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => startEditing(session)}
+                      className="p-1 opacity-0 group-hover:opacity-70 hover:!opacity-100 rounded transition-opacity"
+                      title="Rename chat"
+                    >
+                      <Edit3 className="w-3 h-3" />
+                    </button>
+                    <button
+                      onClick={() => onDelete(session.id!)}
+                      disabled={isDisabled && session.id === activeSessionId}
+                      className="p-1 text-red-500 opacity-0 group-hover:opacity-70 hover:!opacity-100 rounded transition-opacity disabled:hidden"
+                      title="Delete chat"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+ChatSessionMenu.displayName = 'ChatSessionMenu';
+
+export default ChatSessionMenu;
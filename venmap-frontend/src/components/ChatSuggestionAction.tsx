@@ -0,0 +1,47 @@
+import React, { memo } from 'react';
+import { FileText, Undo2 } from 'lucide-react';
+
+interface ChatSuggestionActionProps {
+  sectionTitle: string;
+  isApplied: boolean; // This reply was the last suggestion applied, so it can be undone
+  isDarkMode: boolean;
+  onApply: () => void;
+  onUndo: () => void;
+}
+
+const ChatSuggestionAction: React.FC<ChatSuggestionActionProps> = memo(({
+  sectionTitle,
+  isApplied,
+  isDarkMode,
+  onApply,
+  onUndo
+}) => {
+  const buttonClasses = `flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-colors ${
+    isDarkMode
+      ? 'bg-pink-500/20 text-pink-200 hover:bg-pink-500/30'
+      : 'bg-pink-50 text-pink-700 hover:bg-pink-100'
+  }`;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2">
+      {isApplied ? (
+        <>
+          <span className={`text-xs ${isDarkMode ? 'text-green-300' : 'text-green-700'}`}>Applied to {sectionTitle}</span>
+          <button onClick={onUndo} className={buttonClasses} title="Undo this change">
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+        </>
+      ) : (
+        <button onClick={onApply} className={buttonClasses} title={`Preview and apply to ${sectionTitle}`}>
+          <FileText className="w-3 h-3" />
+          Apply to plan: {sectionTitle}
+        </button>
+      )}
+    </div>
+  );
+});
+
+ChatSuggestionAction.displayName = 'ChatSuggestionAction';
+
+export default ChatSuggestionAction;
@@ -0,0 +1,122 @@
+import React, { memo, useRef, useState } from 'react';
+import { Redo2, Undo2 } from 'lucide-react';
+import ChartedMarkdown from './ChartedMarkdown';
+
+interface DocumentEditorProps {
+  value: string;
+  isDarkMode: boolean;
+  showCharts: boolean; // Preview charts under year/month tables, as the read-only view does
+  renderMarkdown: (text: string) => string;
+  onChange: (value: string) => void;
+  onSave: () => void;
+}
+
+interface EditHistory {
+  entries: string[];
+  index: number;
+}
+
+const MAX_HISTORY = 200;
+const COALESCE_MS = 800; // Keystrokes closer together than this are undone as one step
+
+const DocumentEditor: React.FC<DocumentEditorProps> = memo(({
+  value,
+  isDarkMode,
+  showCharts,
+  renderMarkdown,
+  onChange,
+  onSave
+}) => {
+  const [history, setHistory] = useState<EditHistory>({ entries: [value], index: 0 });
+  const lastEditRef = useRef(0);
+
+  const handleChange = (next: string) => {
+    const now = Date.now();
+    const coalesce = now - lastEditRef.current < COALESCE_MS && history.index > 0 && history.index === history.entries.length - 1;
+    lastEditRef.current = now;
+
+    setHistory(prev => {
+      // Typing after an undo drops the redo entries
+      const entries = prev.entries.slice(0, coalesce ? prev.index : prev.index + 1);
+      entries.push(next);
+      const trimmed = entries.slice(-MAX_HISTORY);
+      return { entries: trimmed, index: trimmed.length - 1 };
+    });
+    onChange(next);
+  };
+
+  const moveHistory = (step: number) => {
+    const index = history.index + step;
+    if (index < 0 || index >= history.entries.length) return;
+    lastEditRef.current = 0;
+    setHistory({ ...history, index });
+    onChange(history.entries[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+
+    if (key === 's') {
+      e.preventDefault();
+      onSave();
+    } else if (key === 'z') {
+      e.preventDefault();
+      moveHistory(e.shiftKey ? 1 : -1);
+    } else if (key === 'y') {
+      e.preventDefault();
+      moveHistory(1);
+    }
+  };
+
+  const toolbarButtonClasses = `p-1.5 rounded transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+    isDarkMode ? 'text-gray-400 hover:text-pink-300 hover:bg-pink-500/20' : 'text-gray-500 hover:text-pink-600 hover:bg-pink-50'
+  }`;
+  const paneLabelClasses = `text-xs font-medium uppercase tracking-wide ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className="h-full flex flex-col gap-2">
+      <div className="flex items-center gap-1">
+        <button onClick={() => moveHistory(-1)} disabled={history.index === 0} className={toolbarButtonClasses} title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button onClick={() => moveHistory(1)} disabled={history.index >= history.entries.length - 1} className={toolbarButtonClasses} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4" />
+        </button>
+        <span className={`ml-2 text-xs ${isDarkMode ? 'text-gray-500' : 'text-gray-400'}`}>Markdown · Ctrl+S to save</span>
+      </div>
+
+      <div className="flex-1 min-h-0 grid grid-cols-1 xl:grid-cols-2 gap-4">
+        <div className="flex flex-col min-h-[300px]">
+          <span className={paneLabelClasses}>Markdown</span>
+          <textarea
+            value={value}
+            onChange={(e) => handleChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            spellCheck
+            className={`flex-1 mt-1 w-full p-4 rounded-lg border font-mono text-sm leading-relaxed resize-none focus:outline-none focus:ring-2 focus:ring-pink-500/50 ${
+              isDarkMode ? 'bg-gray-900/60 border-gray-700 text-gray-100' : 'bg-white/90 border-gray-200 text-gray-900'
+            }`}
+            aria-label="Document markdown"
+          />
+        </div>
+        <div className="flex flex-col min-h-[300px]">
+          <span className={paneLabelClasses}>Preview</span>
+          <div className={`flex-1 mt-1 overflow-y-auto p-4 rounded-lg border ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div className={`prose max-w-none ${isDarkMode ? 'prose-invert' : ''}`}>
+              {showCharts ? (
+                <ChartedMarkdown markdown={value} isDarkMode={isDarkMode} renderMarkdown={renderMarkdown} />
+              ) : (
+                <div dangerouslySetInnerHTML={{ __html: renderMarkdown(value) }} />
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+DocumentEditor.displayName = 'DocumentEditor';
+
+export default DocumentEditor;
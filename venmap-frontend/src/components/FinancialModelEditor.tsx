@@ -0,0 +1,241 @@
+import React, { memo, useMemo, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  MAX_YEARS,
+  MIN_YEARS,
+  computeFinancialModel,
+  createModelId,
+  formatCurrency,
+  type FinancialModel,
+  type FundingRound,
+  type HeadcountRole,
+  type OpexLine,
+  type PricingTier
+} from '../utils/financialModel';
+
+interface FinancialModelEditorProps {
+  model: FinancialModel;
+  isDarkMode: boolean;
+  onSave: (model: FinancialModel) => void;
+  onCancel: () => void;
+}
+
+// Column definition for one of the repeatable input lists
+interface ListColumn<T> {
+  key: keyof T & string;
+  label: string;
+  type: 'text' | 'number';
+  width: string;
+}
+
+const toNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const FinancialModelEditor: React.FC<FinancialModelEditorProps> = memo(({
+  model,
+  isDarkMode,
+  onSave,
+  onCancel
+}) => {
+  const [draft, setDraft] = useState<FinancialModel>(model);
+  const summary = useMemo(() => computeFinancialModel(draft), [draft]);
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+
+  const inputClasses = `w-full px-2 py-1.5 border rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-pink-500/50 ${
+    isDarkMode ? 'bg-gray-700/90 border-gray-600/50 text-white' : 'bg-white/90 border-gray-300/50 text-gray-900'
+  }`;
+  const labelClasses = `block text-xs font-medium mb-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`;
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  const numberField = (label: string, value: number, onChange: (value: number) => void, props: { min?: number; max?: number; step?: number } = {}) => (
+    <div>
+      <label className={labelClasses}>{label}</label>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(toNumber(e.target.value))}
+        className={inputClasses}
+        {...props}
+      />
+    </div>
+  );
+
+  const renderList = <T extends { id: string }>(
+    title: string,
+    items: T[],
+    columns: ListColumn<T>[],
+    createItem: () => T,
+    onChange: (items: T[]) => void
+  ) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold">{title}</h4>
+        <button
+          onClick={() => onChange([...items, createItem()])}
+          className={`flex items-center gap-1 px-2 py-1 rounded-md text-xs transition-colors ${
+            isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          <Plus className="w-3 h-3" />
+          Add
+        </button>
+      </div>
+      {items.length === 0 ? (
+        <p className={`text-sm ${mutedClasses}`}>None yet.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            {columns.map(column => (
+              <span key={column.key} className={`${column.width} ${labelClasses} mb-0`}>{column.label}</span>
+            ))}
+            <span className="w-8" />
+          </div>
+          {items.map(item => (
+            <div key={item.id} className="flex gap-2 items-center">
+              {columns.map(column => (
+                <div key={column.key} className={column.width}>
+                  <input
+                    type={column.type}
+                    value={item[column.key] as string | number}
+                    onChange={(e) => onChange(items.map(existing => existing.id === item.id
+                      ? { ...existing, [column.key]: column.type === 'number' ? toNumber(e.target.value) : e.target.value }
+                      : existing
+                    ))}
+                    className={inputClasses}
+                  />
+                </div>
+              ))}
+              <button
+                onClick={() => onChange(items.filter(existing => existing.id !== item.id))}
+                className="w-8 p-1.5 text-red-500 hover:bg-red-500/10 rounded transition-colors"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const update = (changes: Partial<FinancialModel>) => setDraft(prev => ({ ...prev, ...changes }));
+  const updateRevenue = (changes: Partial<FinancialModel['revenue']>) =>
+    setDraft(prev => ({ ...prev, revenue: { ...prev.revenue, ...changes } }));
+
+  const lastYear = summary.annual[summary.annual.length - 1];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-4xl w-full max-h-[90vh] border flex flex-col`}>
+        <div className="p-6 pb-4 border-b border-white/10">
+          <h3 className="text-xl font-bold">Financial Model</h3>
+          <p className={`text-sm mt-1 ${mutedClasses}`}>
+            Projections are calculated from these inputs and added to the Financial Projections section as tables.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 py-4 space-y-6">
+          {/* Live summary */}
+          <div className={`grid grid-cols-2 md:grid-cols-4 gap-3 p-3 rounded-lg ${isDarkMode ? 'bg-gray-900/50' : 'bg-gray-50'}`}>
+            <div>
+              <div className={`text-xs ${mutedClasses}`}>Year {lastYear.year} revenue</div>
+              <div className="font-bold">{formatCurrency(lastYear.revenue)}</div>
+            </div>
+            <div>
+              <div className={`text-xs ${mutedClasses}`}>Monthly burn (Year 1)</div>
+              <div className="font-bold">{formatCurrency(summary.averageMonthlyBurn)}</div>
+            </div>
+            <div>
+              <div className={`text-xs ${mutedClasses}`}>Runway</div>
+              <div className={`font-bold ${summary.runwayMonths !== null ? 'text-red-500' : ''}`}>
+                {summary.runwayMonths === null ? 'Whole projection' : `${summary.runwayMonths} months`}
+              </div>
+            </div>
+            <div>
+              <div className={`text-xs ${mutedClasses}`}>Break-even</div>
+              <div className="font-bold">{summary.breakEvenMonth === null ? 'Not reached' : `Month ${summary.breakEvenMonth}`}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClasses}>Projection years</label>
+              <select
+                value={draft.years}
+                onChange={(e) => update({ years: parseInt(e.target.value, 10) })}
+                className={inputClasses}
+              >
+                {Array.from({ length: MAX_YEARS - MIN_YEARS + 1 }, (_, index) => MIN_YEARS + index).map(years => (
+                  <option key={years} value={years}>{years} years</option>
+                ))}
+              </select>
+            </div>
+            {numberField('Starting cash ($)', draft.startingCash, value => update({ startingCash: value }), { min: 0, step: 1000 })}
+            {numberField('COGS (% of revenue)', draft.cogsPercent, value => update({ cogsPercent: value }), { min: 0, max: 100 })}
+            {numberField('Payroll overhead (%)', draft.payrollOverheadPercent, value => update({ payrollOverheadPercent: value }), { min: 0 })}
+          </div>
+
+          <div>
+            <h4 className="font-semibold mb-2">Revenue drivers</h4>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {numberField('Starting customers', draft.revenue.startingCustomers, value => updateRevenue({ startingCustomers: value }), { min: 0 })}
+              {numberField('New customers (month 1)', draft.revenue.newCustomersPerMonth, value => updateRevenue({ newCustomersPerMonth: value }), { min: 0 })}
+              {numberField('Acquisition growth (%/month)', draft.revenue.acquisitionGrowthRate, value => updateRevenue({ acquisitionGrowthRate: value }), { step: 0.5 })}
+              {numberField('Churn (%/month)', draft.revenue.monthlyChurnRate, value => updateRevenue({ monthlyChurnRate: value }), { min: 0, max: 100, step: 0.5 })}
+            </div>
+          </div>
+
+          {renderList<PricingTier>('Pricing tiers', draft.pricingTiers, [
+            { key: 'name', label: 'Tier', type: 'text', width: 'flex-1' },
+            { key: 'monthlyPrice', label: 'Price ($/month)', type: 'number', width: 'w-32' },
+            { key: 'customerMix', label: 'Customer mix (%)', type: 'number', width: 'w-32' }
+          ], () => ({ id: createModelId(), name: 'New tier', monthlyPrice: 0, customerMix: 0 }), pricingTiers => update({ pricingTiers }))}
+
+          {renderList<HeadcountRole>('Headcount plan', draft.headcount, [
+            { key: 'role', label: 'Role', type: 'text', width: 'flex-1' },
+            { key: 'count', label: 'Count', type: 'number', width: 'w-20' },
+            { key: 'annualSalary', label: 'Salary ($/year)', type: 'number', width: 'w-32' },
+            { key: 'startMonth', label: 'Start month', type: 'number', width: 'w-24' }
+          ], () => ({ id: createModelId(), role: 'New role', count: 1, annualSalary: 0, startMonth: 1 }), headcount => update({ headcount }))}
+
+          {renderList<OpexLine>('Operating expenses', draft.opex, [
+            { key: 'name', label: 'Expense', type: 'text', width: 'flex-1' },
+            { key: 'monthlyCost', label: 'Cost ($/month)', type: 'number', width: 'w-32' },
+            { key: 'annualGrowthRate', label: 'Growth (%/year)', type: 'number', width: 'w-32' }
+          ], () => ({ id: createModelId(), name: 'New expense', monthlyCost: 0, annualGrowthRate: 0 }), opex => update({ opex }))}
+
+          {renderList<FundingRound>('Funding rounds', draft.funding, [
+            { key: 'name', label: 'Round', type: 'text', width: 'flex-1' },
+            { key: 'amount', label: 'Amount ($)', type: 'number', width: 'w-32' },
+            { key: 'month', label: 'Month', type: 'number', width: 'w-24' }
+          ], () => ({ id: createModelId(), name: 'New round', amount: 0, month: 1 }), funding => update({ funding }))}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all"
+          >
+            Save Model
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+FinancialModelEditor.displayName = 'FinancialModelEditor';
+
+export default FinancialModelEditor;
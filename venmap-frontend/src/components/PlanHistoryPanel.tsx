@@ -0,0 +1,166 @@
+import React, { memo, useMemo, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import type { DocumentContent, DocumentType, PlanVersion, PlanVersionSource } from '../utils/database';
+import { countChanges, diffLines, toSideBySide, type DiffLine } from '../utils/textDiff';
+
+interface PlanHistoryPanelProps {
+  versions: PlanVersion[]; // Newest first
+  currentDocuments: DocumentContent;
+  isDarkMode: boolean;
+  onRestore: (version: PlanVersion) => void;
+  onClose: () => void;
+}
+
+const sourceLabels: Record<PlanVersionSource, string> = {
+  manual: 'Manual save',
+  autosave: 'Auto-save',
+  generation: 'AI generation',
+  restore: 'Restored',
+  sync: 'Synced from server'
+};
+
+const documentLabels: Record<DocumentType, string> = {
+  businessPlan: 'Business Plan',
+  pitchDeck: 'Pitch Deck'
+};
+
+const PlanHistoryPanel: React.FC<PlanHistoryPanelProps> = memo(({
+  versions,
+  currentDocuments,
+  isDarkMode,
+  onRestore,
+  onClose
+}) => {
+  const [selectedId, setSelectedId] = useState<number | undefined>(versions[0]?.id);
+  const [compareTab, setCompareTab] = useState<DocumentType>('businessPlan');
+
+  const selected = versions.find(version => version.id === selectedId);
+  const diff = useMemo(
+    () => diffLines(selected?.documents[compareTab] || '', currentDocuments[compareTab] || ''),
+    [selected, compareTab, currentDocuments]
+  );
+  const rows = useMemo(() => toSideBySide(diff), [diff]);
+  const { added, removed } = countChanges(diff);
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  const cellClasses = (line: DiffLine | undefined, side: 'left' | 'right') => {
+    if (!line) return isDarkMode ? 'bg-gray-900/40' : 'bg-gray-100/60';
+    if (line.type === 'same') return isDarkMode ? 'text-gray-400' : 'text-gray-600';
+    // The left column is the older version, so its changed lines were removed since
+    return side === 'left'
+      ? isDarkMode ? 'bg-red-500/20 text-red-200' : 'bg-red-50 text-red-800'
+      : isDarkMode ? 'bg-green-500/20 text-green-200' : 'bg-green-50 text-green-800';
+  };
+
+  const tabButtonClasses = (isActive: boolean) => `px-3 py-1.5 rounded-lg text-sm transition-colors ${
+    isActive
+      ? 'bg-gradient-to-r from-pink-500 to-purple-600 text-white'
+      : isDarkMode ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+  }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-6xl w-full h-[85vh] border flex flex-col`}>
+        <div className="p-6 pb-4 border-b border-white/10 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Version History
+            </h3>
+            <p className={`text-sm mt-1 ${mutedClasses}`}>Compare a saved version with the current plan and restore it.</p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100/20 rounded-lg transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {versions.length === 0 ? (
+          <div className={`flex-1 flex items-center justify-center ${mutedClasses}`}>
+            No versions yet. Versions are recorded each time the plan is saved or generated.
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+            {/* Version list */}
+            <div className="md:w-64 shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r border-white/10 p-2 max-h-48 md:max-h-none">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg mb-1 transition-colors ${
+                    version.id === selectedId
+                      ? isDarkMode ? 'bg-pink-500/20' : 'bg-pink-50'
+                      : 'hover:bg-gray-100/20'
+                  }`}
+                >
+                  <div className="text-sm font-medium">{new Date(version.createdAt).toLocaleString()}</div>
+                  <div className={`text-xs ${mutedClasses}`}>{sourceLabels[version.source]}</div>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side diff */}
+            <div className="flex-1 min-w-0 flex flex-col">
+              <div className="px-4 py-3 flex flex-wrap items-center gap-2 border-b border-white/10">
+                {(Object.keys(documentLabels) as DocumentType[]).map(tab => (
+                  <button key={tab} onClick={() => setCompareTab(tab)} className={tabButtonClasses(compareTab === tab)}>
+                    {documentLabels[tab]}
+                  </button>
+                ))}
+                <span className={`text-sm ml-auto ${mutedClasses}`}>
+                  <span className="text-green-500">+{added}</span> / <span className="text-red-500">-{removed}</span> lines since this version
+                </span>
+              </div>
+              <div className={`grid grid-cols-2 text-xs font-medium px-4 py-2 ${mutedClasses}`}>
+                <span>Selected version</span>
+                <span>Current</span>
+              </div>
+              <div className="flex-1 overflow-y-auto px-4 pb-4">
+                {rows.length === 0 ? (
+                  <p className={`text-sm ${mutedClasses}`}>Neither version has a {documentLabels[compareTab].toLowerCase()}.</p>
+                ) : (
+                  <div className={`rounded-lg border font-mono text-xs leading-relaxed ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                    {rows.map((row, index) => (
+                      <div key={index} className="grid grid-cols-2">
+                        <div className={`px-3 whitespace-pre-wrap break-words border-r ${isDarkMode ? 'border-gray-700' : 'border-gray-200'} ${cellClasses(row.left, 'left')}`}>
+                          {row.left?.text || ' '}
+                        </div>
+                        <div className={`px-3 whitespace-pre-wrap break-words ${cellClasses(row.right, 'right')}`}>
+                          {row.right?.text || ' '}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => selected && onRestore(selected)}
+            disabled={!selected}
+            className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Restore this version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+PlanHistoryPanel.displayName = 'PlanHistoryPanel';
+
+export default PlanHistoryPanel;
@@ -0,0 +1,89 @@
+import React, { memo, useState } from 'react';
+
+interface PlanNameModalProps {
+  title: string;
+  initialName: string;
+  confirmLabel: string;
+  description?: string;
+  isNameTaken?: (name: string) => boolean; // Blocks names that would clash with another plan
+  isDarkMode: boolean;
+  onConfirm: (name: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for a plan name, for "Rename", "Save as copy" and importing a shared plan
+const PlanNameModal: React.FC<PlanNameModalProps> = memo(({
+  title,
+  initialName,
+  confirmLabel,
+  description,
+  isNameTaken,
+  isDarkMode,
+  onConfirm,
+  onCancel
+}) => {
+  const [name, setName] = useState(initialName);
+  const trimmed = name.trim();
+  const isTaken = !!trimmed && !!isNameTaken?.(trimmed);
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[110] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-md w-full border`}>
+        <div className="p-6 pb-4 border-b border-white/10">
+          <h3 className="text-xl font-bold">{title}</h3>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (trimmed && !isTaken) onConfirm(trimmed);
+          }}
+        >
+          <div className="p-6 py-4">
+            {description && (
+              <p className={`text-sm mb-4 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>{description}</p>
+            )}
+            <label className={`block text-sm font-bold mb-2 ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>Plan name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-pink-500/50 ${
+                isDarkMode ? 'bg-gray-700/90 border-gray-600/50 text-white' : 'bg-white/90 border-gray-300/50 text-gray-900'
+              }`}
+            />
+            {isTaken && (
+              <p className="text-sm text-red-500 mt-2">A plan with this name already exists</p>
+            )}
+          </div>
+
+          <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!trimmed || isTaken}
+              className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {confirmLabel}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+});
+
+PlanNameModal.displayName = 'PlanNameModal';
+
+export default PlanNameModal;
@@ -0,0 +1,68 @@
+import React, { memo } from 'react';
+import { RefreshCw, Maximize2, Minimize2, Loader2 } from 'lucide-react';
+import type { PlanSection } from '../utils/database';
+import type { SectionAction } from '../utils/planSections';
+import ChartedMarkdown from './ChartedMarkdown';
+
+interface PlanSectionViewProps {
+  section: PlanSection;
+  isDarkMode: boolean;
+  isBusy: boolean; // This section is currently being (re)generated
+  isDisabled: boolean; // Another generation is in progress
+  onAction: (sectionKey: string, action: SectionAction) => void;
+  renderMarkdown: (text: string) => string;
+}
+
+const sectionActions: { action: SectionAction; label: string; icon: React.ReactNode }[] = [
+  { action: 'regenerate', label: 'Regenerate', icon: <RefreshCw className="w-3 h-3" /> },
+  { action: 'expand', label: 'Expand', icon: <Maximize2 className="w-3 h-3" /> },
+  { action: 'shorten', label: 'Shorten', icon: <Minimize2 className="w-3 h-3" /> }
+];
+
+const PlanSectionView: React.FC<PlanSectionViewProps> = memo(({
+  section,
+  isDarkMode,
+  isBusy,
+  isDisabled,
+  onAction,
+  renderMarkdown
+}) => {
+  return (
+    <section className={`group relative rounded-lg transition-colors ${isBusy ? (isDarkMode ? 'bg-pink-500/10' : 'bg-pink-50/50') : ''}`}>
+      <div className="not-prose flex items-center justify-end gap-1 h-7 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+        {isBusy ? (
+          <span className={`flex items-center gap-1 text-xs ${isDarkMode ? 'text-pink-300' : 'text-pink-600'}`}>
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Writing...
+          </span>
+        ) : (
+          sectionActions.map(({ action, label, icon }) => (
+            <button
+              key={action}
+              onClick={() => onAction(section.key, action)}
+              disabled={isDisabled || (action !== 'regenerate' && !section.content.trim())}
+              className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                isDarkMode
+                  ? 'text-gray-400 hover:text-pink-300 hover:bg-pink-500/20'
+                  : 'text-gray-500 hover:text-pink-600 hover:bg-pink-50'
+              }`}
+              title={`${label} ${section.title}`}
+            >
+              {icon}
+              {label}
+            </button>
+          ))
+        )}
+      </div>
+      <ChartedMarkdown
+        markdown={`## ${section.title}\n${section.content}`}
+        isDarkMode={isDarkMode}
+        renderMarkdown={renderMarkdown}
+      />
+    </section>
+  );
+});
+
+PlanSectionView.displayName = 'PlanSectionView';
+
+export default PlanSectionView;
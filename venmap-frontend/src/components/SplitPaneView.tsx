@@ -1,8 +1,14 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Bot, Copy, Download, ChevronDown, Send, FileText, Loader2, Paperclip, Upload, X } from 'lucide-react';
+import { Bot, Copy, Download, ChevronDown, Send, FileText, Loader2, Paperclip, Upload, X, Square, Edit3, Eye, Save, History } from 'lucide-react';
 import DocumentTabs from './DocumentTabs';
+import PlanSectionView from './PlanSectionView';
+import ChartedMarkdown from './ChartedMarkdown';
+import DocumentEditor from './DocumentEditor';
+import ChatSessionMenu from './ChatSessionMenu';
+import ChatSuggestionAction from './ChatSuggestionAction';
 import { Presentation } from 'lucide-react';
-import type { DocumentType, DocumentContent } from '../utils/database';
+import type { ChatSession, DocumentType, DocumentContent, PlanSection } from '../utils/database';
+import { getPlanPreamble, getPlanTitle, type SectionAction } from '../utils/planSections';
 
 interface ChatMessage {
   id: number;
@@ -58,8 +64,30 @@ interface SplitPaneViewProps {
   onDrop: (e: React.DragEvent) => void;
   onTabChange: (tabId: DocumentType) => void;
   onTabClose?: (tabId: DocumentType) => void;
+  onStopGenerating?: () => void;
+  onStopChat?: () => void;
+  onSectionAction?: (sectionKey: string, action: SectionAction) => void;
+  onSelectChatSession?: (sessionId: number) => void;
+  onNewChatSession?: () => void;
+  onRenameChatSession?: (sessionId: number, title: string) => void;
+  onDeleteChatSession?: (sessionId: number) => void;
+  onApplySuggestion?: (messageId: number) => void;
+  onUndoSuggestion?: () => void;
+  onToggleEditDocument?: () => void;
+  onDocumentChange?: (content: string) => void;
+  onSaveDocument?: () => void;
+  onShowHistory?: () => void;
   
   // Data
+  planSections?: PlanSection[];
+  generatingSectionKey?: string | null;
+  chatSessions?: ChatSession[];
+  activeChatSessionId?: number | null;
+  chatSuggestions?: Record<number, { title: string }>; // Replies that can be applied to a plan section
+  appliedSuggestionMessageId?: number | null;
+  isEditingDocument?: boolean;
+  isDocumentDirty?: boolean; // Edits not yet saved to the plan
+  businessName?: string;
   exportOptions: ExportOption[];
   renderMarkdown: (text: string) => string;
   renderChatMessage: (text: string) => string;
@@ -91,6 +119,28 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
   onDrop,
   onTabChange,
   onTabClose,
+  onStopGenerating,
+  onStopChat,
+  onSectionAction,
+  onSelectChatSession,
+  onNewChatSession,
+  onRenameChatSession,
+  onDeleteChatSession,
+  onApplySuggestion,
+  onUndoSuggestion,
+  onToggleEditDocument,
+  onDocumentChange,
+  onSaveDocument,
+  onShowHistory,
+  planSections = [],
+  generatingSectionKey = null,
+  chatSessions = [],
+  activeChatSessionId = null,
+  chatSuggestions = {},
+  appliedSuggestionMessageId = null,
+  isEditingDocument = false,
+  isDocumentDirty = false,
+  businessName = '',
   exportOptions,
   renderMarkdown,
   renderChatMessage
@@ -180,7 +230,10 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
     }
   }, [chatMessages, isChatLoading, showChatbot]);
 
-  const showContent = documents[activeTab] || chatMessages.length > 0;
+  // The editor stays open on an emptied document so its undo history survives
+  const isEditorOpen = isEditingDocument && !isGenerating && documents[activeTab] !== undefined && !!onDocumentChange;
+  const showContent = documents[activeTab] || isEditorOpen || chatMessages.length > 0;
+  const planPreamble = getPlanPreamble(documents.businessPlan || '');
 
   return (
     <div className={`w-full lg:w-1/2 ${cardClasses} backdrop-blur-lg border-l border-white/50 flex flex-col relative z-5 hidden lg:flex split-pane-container`}>
@@ -193,12 +246,70 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
           >
             {/* Plan Header */}
             <div className={`border-b border-white/50 p-4 flex items-center justify-between ${cardClasses} backdrop-blur-sm shrink-0`}>
-              <h3 className="font-semibold">
+              <h3 className="font-semibold flex items-center gap-2">
                 Document Hub
+                {isDocumentDirty && (
+                  <span className={`text-xs font-normal ${isDarkMode ? 'text-amber-300' : 'text-amber-600'}`}>Unsaved changes</span>
+                )}
               </h3>
               <div className="flex gap-2">
-                {documents[activeTab] && (
+                {isGenerating && onStopGenerating && (
+                  <button
+                    onClick={onStopGenerating}
+                    className={`px-3 py-2 rounded-md transition-colors flex items-center gap-1 text-sm ${
+                      isDarkMode 
+                        ? 'text-red-400 hover:bg-red-500/20' 
+                        : 'text-red-600 hover:bg-red-50/20'
+                    }`}
+                    title="Stop generating"
+                  >
+                    <Square className="w-3 h-3 fill-current" />
+                    Stop
+                  </button>
+                )}
+                {(documents[activeTab] || isEditorOpen) && (
                   <>
+                    {isDocumentDirty && onSaveDocument && (
+                      <button
+                        onClick={onSaveDocument}
+                        className={`px-3 py-2 rounded-md transition-colors flex items-center gap-1 text-sm ${
+                          isDarkMode 
+                            ? 'text-pink-300 hover:bg-pink-500/20' 
+                            : 'text-pink-600 hover:bg-pink-50/20'
+                        }`}
+                        title="Save changes (Ctrl+S)"
+                      >
+                        <Save className="w-4 h-4" />
+                        Save
+                      </button>
+                    )}
+                    {onToggleEditDocument && (
+                      <button
+                        onClick={onToggleEditDocument}
+                        disabled={isGenerating}
+                        className={`p-2 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                          isDarkMode 
+                            ? 'text-gray-400 hover:text-pink-400 hover:bg-pink-500/20' 
+                            : 'text-gray-600 hover:text-pink-600 hover:bg-pink-50/20'
+                        }`}
+                        title={isEditingDocument ? 'Preview document' : 'Edit document'}
+                      >
+                        {isEditingDocument ? <Eye className="w-4 h-4" /> : <Edit3 className="w-4 h-4" />}
+                      </button>
+                    )}
+                    {onShowHistory && (
+                      <button
+                        onClick={onShowHistory}
+                        className={`p-2 rounded-md transition-colors ${
+                          isDarkMode 
+                            ? 'text-gray-400 hover:text-pink-400 hover:bg-pink-500/20' 
+                            : 'text-gray-600 hover:text-pink-600 hover:bg-pink-50/20'
+                        }`}
+                        title="Version history"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    )}
                     <button
                       onClick={onCopyToClipboard}
                       className={`p-2 rounded-md transition-colors ${
@@ -256,7 +367,40 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
 
             {/* Document Content */}
             <div className="flex-1 p-8 overflow-y-auto">
-              {documents[activeTab] ? (
+              {isEditorOpen && onDocumentChange ? (
+                <DocumentEditor
+                  key={activeTab}
+                  value={documents[activeTab] || ''}
+                  isDarkMode={isDarkMode}
+                  showCharts={activeTab === 'businessPlan'}
+                  renderMarkdown={renderMarkdown}
+                  onChange={onDocumentChange}
+                  onSave={onSaveDocument || (() => {})}
+                />
+              ) : activeTab === 'businessPlan' && planSections.length > 0 && onSectionAction ? (
+                <div className={`prose prose-lg max-w-none ${isDarkMode ? 'prose-invert' : ''}`}>
+                  {planPreamble ? (
+                    <div dangerouslySetInnerHTML={{ __html: renderMarkdown(planPreamble) }} />
+                  ) : (
+                    <h1>{getPlanTitle(businessName)}</h1>
+                  )}
+                  {planSections.map(section => (
+                    <PlanSectionView
+                      key={section.key}
+                      section={section}
+                      isDarkMode={isDarkMode}
+                      isBusy={generatingSectionKey === section.key}
+                      isDisabled={isGenerating}
+                      onAction={onSectionAction}
+                      renderMarkdown={renderMarkdown}
+                    />
+                  ))}
+                </div>
+              ) : activeTab === 'businessPlan' && documents.businessPlan ? (
+                <div className={`prose prose-lg max-w-none ${isDarkMode ? 'prose-invert' : ''}`}>
+                  <ChartedMarkdown markdown={documents.businessPlan} isDarkMode={isDarkMode} renderMarkdown={renderMarkdown} />
+                </div>
+              ) : documents[activeTab] ? (
                 <div 
                   className={`prose prose-lg max-w-none ${isDarkMode ? 'prose-invert' : ''}`}
                   dangerouslySetInnerHTML={{ __html: renderMarkdown(documents[activeTab] || '') }}
@@ -323,6 +467,18 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
             {/* Chat Header */}
             <div className={`border-b border-white/50 p-4 flex items-center justify-between ${cardClasses} backdrop-blur-sm shrink-0`}>
               <h3 className="font-semibold">✨ AI Assistant</h3>
+              {onSelectChatSession && onNewChatSession && onRenameChatSession && onDeleteChatSession && (
+                <ChatSessionMenu
+                  sessions={chatSessions}
+                  activeSessionId={activeChatSessionId}
+                  isDarkMode={isDarkMode}
+                  isDisabled={isChatLoading}
+                  onSelect={onSelectChatSession}
+                  onNew={onNewChatSession}
+                  onRename={onRenameChatSession}
+                  onDelete={onDeleteChatSession}
+                />
+              )}
             </div>
             
             {/* Chat Messages */}
@@ -372,6 +528,15 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
                               dangerouslySetInnerHTML={{ __html: renderChatMessage(message.message) }}
                             />
                           )}
+                          {message.type === 'bot' && chatSuggestions[message.id] && onApplySuggestion && onUndoSuggestion && (
+                            <ChatSuggestionAction
+                              sectionTitle={chatSuggestions[message.id].title}
+                              isApplied={appliedSuggestionMessageId === message.id}
+                              isDarkMode={isDarkMode}
+                              onApply={() => onApplySuggestion(message.id)}
+                              onUndo={onUndoSuggestion}
+                            />
+                          )}
                         </div>
                         <div className={`text-xs mt-2 opacity-70 ${
                           message.type === 'user' 
@@ -492,14 +657,25 @@ export const SplitPaneView: React.FC<SplitPaneViewProps> = ({
                     <Paperclip className="w-4 h-4" />
                   </button>
                 </div>
-                <button
-                  onClick={onSendMessage}
-                  disabled={!chatInput.trim() || isChatLoading}
-                  className="p-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 disabled:opacity-50 transition-all shadow-lg flex-shrink-0"
-                  style={{ height: '44px', width: '44px' }}
-                >
-                  <Send className="w-4 h-4" />
-                </button>
+                {isChatLoading && onStopChat ? (
+                  <button
+                    onClick={onStopChat}
+                    className="p-3 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all shadow-lg flex-shrink-0"
+                    style={{ height: '44px', width: '44px' }}
+                    title="Stop response"
+                  >
+                    <Square className="w-4 h-4 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={onSendMessage}
+                    disabled={!chatInput.trim() || isChatLoading}
+                    className="p-3 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 disabled:opacity-50 transition-all shadow-lg flex-shrink-0"
+                    style={{ height: '44px', width: '44px' }}
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
               </div>
               
               {/* Hidden file input */}
@@ -0,0 +1,92 @@
+import React, { memo } from 'react';
+import { countWorkspace, type WorkspaceBundle, type WorkspaceImportMode } from '../utils/workspaceBundle';
+
+interface WorkspaceImportModalProps {
+  bundle: WorkspaceBundle;
+  fileName: string;
+  isDarkMode: boolean;
+  isImporting: boolean;
+  onImport: (mode: WorkspaceImportMode) => void;
+  onCancel: () => void;
+}
+
+const countLabels: { key: keyof WorkspaceBundle['data']; label: string }[] = [
+  { key: 'businessPlans', label: 'Plans' },
+  { key: 'planVersions', label: 'Plan versions' },
+  { key: 'chatSessions', label: 'Chats' },
+  { key: 'chatMessages', label: 'Chat messages' },
+  { key: 'uploadedDocuments', label: 'Uploaded documents' },
+  { key: 'appSettings', label: 'Settings' }
+];
+
+const WorkspaceImportModal: React.FC<WorkspaceImportModalProps> = memo(({
+  bundle,
+  fileName,
+  isDarkMode,
+  isImporting,
+  onImport,
+  onCancel
+}) => {
+  const counts = countWorkspace(bundle.data);
+
+  const cardClasses = isDarkMode
+    ? 'bg-gray-800/80 border-gray-700/50'
+    : 'bg-white/80 border-white/50';
+  const mutedClasses = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[110] flex items-center justify-center p-4">
+      <div className={`${cardClasses} backdrop-blur-lg rounded-xl max-w-lg w-full border`}>
+        <div className="p-6 pb-4 border-b border-white/10">
+          <h3 className="text-xl font-bold">Import Workspace</h3>
+          <p className={`text-sm mt-1 ${mutedClasses}`}>
+            {fileName} · exported {new Date(bundle.exportedAt).toLocaleString()}
+          </p>
+        </div>
+
+        <div className="p-6 py-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2 text-sm">
+            {countLabels.map(({ key, label }) => (
+              <div key={key} className="flex justify-between">
+                <span className={mutedClasses}>{label}</span>
+                <span className="font-medium">{counts[key]}</span>
+              </div>
+            ))}
+          </div>
+          <div className={`text-sm space-y-2 ${mutedClasses}`}>
+            <p><strong>Merge</strong> adds these alongside your current plans and chats. Your settings are kept.</p>
+            <p><strong>Replace</strong> deletes your current plans, chats, history and settings first. API keys and your sign-in are kept.</p>
+          </div>
+        </div>
+
+        <div className="p-6 pt-4 border-t border-white/10 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            disabled={isImporting}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onImport('replace')}
+            disabled={isImporting}
+            className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            Replace
+          </button>
+          <button
+            onClick={() => onImport('merge')}
+            disabled={isImporting}
+            className="px-4 py-2 bg-gradient-to-r from-pink-500 to-purple-600 text-white rounded-lg hover:from-pink-600 hover:to-purple-700 transition-all disabled:opacity-50"
+          >
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+WorkspaceImportModal.displayName = 'WorkspaceImportModal';
+
+export default WorkspaceImportModal;
@@ -1,12 +1,32 @@
 // API client for backend server integration
+import {
+  CHAT_HISTORY_TOKEN_BUDGET,
+  estimateTokens,
+  normalizeConversation,
+  truncateConversation,
+  type ConversationMessage
+} from './conversation';
+import { authHeaders, reportUnauthorized } from './auth';
 
 const BACKEND_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
 const USE_BACKEND_API = import.meta.env.VITE_USE_BACKEND_API !== 'false';
 
 
+// Tells the backend which provider route to use (see AI_ROUTING_CONFIG)
+export type AITask = 'chat' | 'plan' | 'pitchDeck';
+
+interface APIRoute {
+  task: string;
+  providerName: string;
+  model: string | null;
+  fallback?: boolean; // No provider answered and the canned response was used
+  cached?: boolean; // Answered from the backend's response cache
+}
+
 interface APIResponse {
   response: string;
   provider: string;
+  route?: APIRoute;
   timestamp: string;
 }
 
@@ -16,6 +36,41 @@ interface APIError {
   timestamp: string;
 }
 
+export interface ProviderHealth {
+  name: string;
+  model: string;
+  status: 'healthy' | 'unhealthy' | 'unavailable'; // Unhealthy: answered with an error; unavailable: no answer
+  latencyMs: number | null;
+  checkedAt: string;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  error: { kind: string; message: string } | null;
+  cached: boolean;
+}
+
+export interface ProviderBreaker {
+  state: 'closed' | 'open' | 'half_open';
+  retryAt: string | null;
+}
+
+export interface ProviderHealthReport {
+  timestamp: string;
+  services: Record<string, ProviderHealth>;
+  breakers: Record<string, ProviderBreaker>;
+}
+
+// Receives each chunk of text as it arrives from a streaming provider
+export type TokenHandler = (token: string) => void;
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Reject on provider errors instead of streaming the fallback response
+  throwOnError?: boolean;
+  task?: AITask;
+  // Ask a provider for a new answer rather than one from the backend's response cache
+  fresh?: boolean;
+}
+
 export class AIClient {
   private static instance: AIClient;
   private userApiKeys: { claude: string; openai: string; provider: string } | null = null;
@@ -39,7 +94,27 @@ export class AIClient {
     this.userApiKeys = null;
   }
 
-  async generateResponse(prompt: string, context?: string): Promise<string> {
+  // Aborting the signal cancels the underlying fetch and rejects with an AbortError
+  async generateResponse(prompt: string, context?: string, signal?: AbortSignal): Promise<string> {
+    return this.requestResponse(prompt, context, [], signal);
+  }
+
+  // Multi-turn variant of generateResponse. The last message must be the user's
+  // new question; earlier turns are sent as history, oldest turns first dropped
+  // once history and context exceed the token budget.
+  async generateChatResponse(messages: ConversationMessage[], context?: string, signal?: AbortSignal): Promise<string> {
+    const budget = Math.max(CHAT_HISTORY_TOKEN_BUDGET - estimateTokens(context), 0);
+    const conversation = truncateConversation(normalizeConversation(messages), budget);
+    const latest = conversation[conversation.length - 1];
+
+    if (!latest || latest.role !== 'user') {
+      throw new Error('The last chat message must be from the user');
+    }
+
+    return this.requestResponse(latest.content, context, conversation.slice(0, -1), signal, 'chat');
+  }
+
+  private async requestResponse(prompt: string, context: string | undefined, history: ConversationMessage[], signal?: AbortSignal, task?: AITask): Promise<string> {
     console.log('🔥 generateResponse called - checking API configuration...', {
       hasUserApiKeys: !!(this.userApiKeys && this.userApiKeys.provider),
       provider: this.userApiKeys?.provider || 'none',
@@ -49,7 +124,7 @@ export class AIClient {
     // If user has API keys, use direct API calls
     if (this.userApiKeys && this.userApiKeys.provider) {
       console.log(`🚀 Making direct API call via: ${this.userApiKeys.provider.toUpperCase()}`);
-      return this.generateDirectResponse(prompt, context);
+      return this.generateDirectResponse(prompt, context, history, signal);
     }
 
     // Skip backend API if backend API is disabled
@@ -65,14 +140,16 @@ export class AIClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders()
         },
-        body: JSON.stringify({
-          prompt,
-          context
-        })
+        body: JSON.stringify(history.length > 0
+          ? { messages: [...history, { role: 'user', content: prompt }], context, task }
+          : { prompt, context, task }),
+        signal
       });
 
       if (!response.ok) {
+        reportUnauthorized(response);
         const errorData: APIError = await response.json().catch(() => ({
           error: 'Network error',
           message: `HTTP ${response.status}: ${response.statusText}`,
@@ -83,9 +160,10 @@ export class AIClient {
       }
 
       const data: APIResponse = await response.json();
-      console.log(`✅ Backend API response received via: ${data.provider || 'Unknown Provider'}`);
+      console.log(`✅ Backend API response received via: ${this.describeRoute(data)}`);
       return data.response;
     } catch (error) {
+      if (this.isAbortError(error)) throw error;
       console.error('Backend API error:', error);
       
       // Check if it's a network error
@@ -98,8 +176,98 @@ export class AIClient {
     }
   }
 
+  // Streaming variant of generateResponse. Tokens are passed to onToken as they
+  // arrive and the full text is returned once the stream completes. Aborting the
+  // signal rejects with an AbortError; other failures stream the fallback text
+  // unless throwOnError is set.
+  async generateResponseStream(prompt: string, context: string | undefined, onToken: TokenHandler, options: StreamOptions = {}): Promise<string> {
+    const { signal, throwOnError = false, task, fresh = false } = options;
+
+    // If user has API keys, stream directly from the provider
+    if (this.userApiKeys && this.userApiKeys.provider) {
+      console.log(`🚀 Streaming direct API call via: ${this.userApiKeys.provider.toUpperCase()}`);
+      return this.streamDirectResponse(prompt, context, onToken, options);
+    }
+
+    // Skip backend API if backend API is disabled
+    if (!USE_BACKEND_API) {
+      if (throwOnError) throw new Error('Backend API disabled. Please configure your API keys.');
+      console.log('⚠️ Backend API disabled - using fallback response');
+      const fallback = this.getFallbackResponse(prompt, 'Backend API disabled. Please configure your API keys.');
+      onToken(fallback);
+      return fallback;
+    }
+
+    console.log('🔄 Streaming request via backend API...');
+    let fullText = '';
+    try {
+      const response = await fetch(`${BACKEND_BASE_URL}/api/generate/stream`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          ...(fresh ? { 'Cache-Control': 'no-cache' } : {}),
+          ...authHeaders()
+        },
+        body: JSON.stringify({
+          prompt,
+          context,
+          task
+        }),
+        signal
+      });
+
+      if (!response.ok) {
+        reportUnauthorized(response);
+        const errorData: APIError = await response.json().catch(() => ({
+          error: 'Network error',
+          message: `HTTP ${response.status}: ${response.statusText}`,
+          timestamp: new Date().toISOString()
+        }));
+
+        throw new Error(errorData.message || 'Failed to generate response');
+      }
+
+      await this.readServerSentEvents(response, (event, data) => {
+        if (event === 'token') {
+          const { token } = data as { token: string };
+          fullText += token;
+          onToken(token);
+        } else if (event === 'done') {
+          if (throwOnError && (data as APIResponse).route?.fallback) {
+            throw new Error('No AI provider is available');
+          }
+          console.log(`✅ Backend stream completed via: ${this.describeRoute(data as APIResponse)}`);
+        } else if (event === 'error') {
+          throw new Error((data as APIError).message || 'Streaming failed');
+        }
+      });
+
+      return fullText;
+    } catch (error) {
+      if (this.isAbortError(error) || throwOnError) throw error;
+      console.error('Backend streaming error:', error);
+
+      // Keep whatever already arrived rather than replacing it with the fallback
+      if (fullText) return fullText;
+
+      const message = error instanceof TypeError && error.message.includes('fetch')
+        ? 'Backend server is not running. Please start the backend server.'
+        : (error as Error).message;
+      const fallback = this.getFallbackResponse(prompt, message);
+      onToken(fallback);
+      return fallback;
+    }
+  }
+
+  private describeRoute(data: Pick<APIResponse, 'provider' | 'route'>): string {
+    if (!data.route) return data.provider || 'Unknown Provider';
+    const { task, providerName, model, cached } = data.route;
+    return `${providerName}${model ? ` (${model})` : ''}, ${task} route${cached ? ', cached' : ''}`;
+  }
+
   // Direct API call method
-  private async generateDirectResponse(prompt: string, context?: string): Promise<string> {
+  private async generateDirectResponse(prompt: string, context: string | undefined, history: ConversationMessage[], signal?: AbortSignal): Promise<string> {
     if (!this.userApiKeys) {
       throw new Error('No user API keys configured');
     }
@@ -108,30 +276,59 @@ export class AIClient {
     
     try {
       if (provider === 'claude') {
-        return await this.callClaudeAPI(prompt, context);
+        return await this.callClaudeAPI(prompt, context, history, signal);
       } else if (provider === 'openai') {
-        return await this.callOpenAIAPI(prompt, context);
+        return await this.callOpenAIAPI(prompt, context, history, signal);
       } else {
         throw new Error(`Unknown provider: ${provider}`);
       }
     } catch (error) {
+      if (this.isAbortError(error)) throw error;
       console.error('Direct API error:', error);
       return this.getFallbackResponse(prompt, `${provider} API error: ${(error as Error).message}`);
     }
   }
 
+  // Direct streaming call method
+  private async streamDirectResponse(prompt: string, context: string | undefined, onToken: TokenHandler, options: StreamOptions): Promise<string> {
+    if (!this.userApiKeys) {
+      throw new Error('No user API keys configured');
+    }
+
+    const { provider } = this.userApiKeys;
+    const { signal, throwOnError = false } = options;
+    let fullText = '';
+    const collect: TokenHandler = (token) => {
+      fullText += token;
+      onToken(token);
+    };
+
+    try {
+      if (provider === 'claude') {
+        await this.streamClaudeAPI(prompt, context, collect, signal);
+      } else if (provider === 'openai') {
+        await this.streamOpenAIAPI(prompt, context, collect, signal);
+      } else {
+        throw new Error(`Unknown provider: ${provider}`);
+      }
+      return fullText;
+    } catch (error) {
+      if (this.isAbortError(error) || throwOnError) throw error;
+      console.error('Direct streaming error:', error);
+      if (fullText) return fullText;
+
+      const fallback = this.getFallbackResponse(prompt, `${provider} API error: ${(error as Error).message}`);
+      onToken(fallback);
+      return fallback;
+    }
+  }
+
   // Claude API direct call
-  private async callClaudeAPI(prompt: string, context?: string): Promise<string> {
+  private async callClaudeAPI(prompt: string, context: string | undefined, history: ConversationMessage[] = [], signal?: AbortSignal): Promise<string> {
     if (!this.userApiKeys?.claude) {
       throw new Error('Claude API key not configured');
     }
 
-    const messages = [];
-    if (context) {
-      messages.push({ role: 'system', content: context });
-    }
-    messages.push({ role: 'user', content: prompt });
-
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
       headers: {
@@ -142,8 +339,10 @@ export class AIClient {
       body: JSON.stringify({
         model: 'claude-3-haiku-20240307',
         max_tokens: 4000,
-        messages
-      })
+        system: context || undefined,
+        messages: [...history, { role: 'user', content: prompt }]
+      }),
+      signal
     });
 
     if (!response.ok) {
@@ -156,16 +355,12 @@ export class AIClient {
   }
 
   // OpenAI API direct call
-  private async callOpenAIAPI(prompt: string, context?: string): Promise<string> {
+  private async callOpenAIAPI(prompt: string, context: string | undefined, history: ConversationMessage[] = [], signal?: AbortSignal): Promise<string> {
     if (!this.userApiKeys?.openai) {
       throw new Error('OpenAI API key not configured');
     }
 
-    const messages = [];
-    if (context) {
-      messages.push({ role: 'system', content: context });
-    }
-    messages.push({ role: 'user', content: prompt });
+    const messages = this.buildOpenAIMessages(prompt, context, history);
 
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
@@ -178,7 +373,8 @@ export class AIClient {
         messages,
         max_tokens: 4000,
         temperature: 0.7
-      })
+      }),
+      signal
     });
 
     if (!response.ok) {
@@ -190,6 +386,138 @@ export class AIClient {
     return data.choices[0].message.content;
   }
 
+  // Claude API direct streaming call
+  private async streamClaudeAPI(prompt: string, context: string | undefined, onToken: TokenHandler, signal?: AbortSignal): Promise<void> {
+    if (!this.userApiKeys?.claude) {
+      throw new Error('Claude API key not configured');
+    }
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.userApiKeys.claude,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: 'claude-3-haiku-20240307',
+        max_tokens: 4000,
+        system: context || undefined,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Claude API error: ${response.status} ${errorText}`);
+    }
+
+    await this.readServerSentEvents(response, (_event, data) => {
+      const payload = data as { type?: string; delta?: { text?: string }; error?: { message?: string } };
+      if (payload.type === 'content_block_delta' && payload.delta?.text) {
+        onToken(payload.delta.text);
+      } else if (payload.type === 'error') {
+        throw new Error(`Claude API error: ${payload.error?.message || 'Stream error'}`);
+      }
+    });
+  }
+
+  // OpenAI API direct streaming call
+  private async streamOpenAIAPI(prompt: string, context: string | undefined, onToken: TokenHandler, signal?: AbortSignal): Promise<void> {
+    if (!this.userApiKeys?.openai) {
+      throw new Error('OpenAI API key not configured');
+    }
+
+    const messages = this.buildOpenAIMessages(prompt, context);
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.userApiKeys.openai}`
+      },
+      body: JSON.stringify({
+        model: 'gpt-3.5-turbo',
+        messages,
+        max_tokens: 4000,
+        temperature: 0.7,
+        stream: true
+      }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI API error: ${response.status} ${errorText}`);
+    }
+
+    await this.readServerSentEvents(response, (_event, data) => {
+      const payload = data as { choices?: { delta?: { content?: string } }[] };
+      const token = payload.choices?.[0]?.delta?.content;
+      if (token) onToken(token);
+    });
+  }
+
+  // OpenAI takes the context as a system message ahead of the conversation.
+  // Claude takes it as the top-level `system` field instead.
+  private buildOpenAIMessages(prompt: string, context?: string, history: ConversationMessage[] = []) {
+    return [
+      ...(context ? [{ role: 'system', content: context }] : []),
+      ...history,
+      { role: 'user', content: prompt }
+    ];
+  }
+
+  // Read a Server-Sent Events body, calling onEvent with each parsed JSON payload.
+  // Events without an explicit `event:` field are reported as 'message'.
+  private async readServerSentEvents(response: Response, onEvent: (event: string, data: unknown) => void): Promise<void> {
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this response');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let eventName = 'message';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const rawLine of lines) {
+        const line = rawLine.trim();
+
+        if (!line) {
+          // Blank line terminates the current event
+          eventName = 'message';
+        } else if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          const payload = line.slice(5).trim();
+          if (!payload || payload === '[DONE]') continue;
+
+          let data: unknown;
+          try {
+            data = JSON.parse(payload);
+          } catch {
+            continue; // Ignore partial or non-JSON keep-alive payloads
+          }
+          onEvent(eventName, data);
+        }
+      }
+    }
+  }
+
+  private isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError';
+  }
+
   private getFallbackResponse(prompt: string, errorMessage?: string): string {
     const baseMessage = `Thanks for your question: "${prompt}". I'm here to help with business planning!`;
     
@@ -227,6 +555,7 @@ Try rephrasing your question or check back in a moment once the service is resto
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders()
         }
       });
 
@@ -254,6 +583,7 @@ Try rephrasing your question or check back in a moment once the service is resto
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders()
         }
       });
 
@@ -287,6 +617,7 @@ Try rephrasing your question or check back in a moment once the service is resto
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...authHeaders()
         }
       });
 
@@ -320,4 +651,33 @@ Try rephrasing your question or check back in a moment once the service is resto
       };
     }
   }
-}
\ No newline at end of file
+
+  // Probe results for the backend's providers, or null when the backend can't
+  // be reached. refresh asks the backend to probe again rather than answer
+  // from its cache.
+  async getProviderHealth(refresh = false): Promise<ProviderHealthReport | null> {
+    if (!USE_BACKEND_API) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(`${BACKEND_BASE_URL}/api/health${refresh ? '?refresh=true' : ''}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authHeaders()
+        }
+      });
+
+      if (!response.ok) {
+        return null;
+      }
+
+      const data = await response.json();
+      return data.health;
+    } catch {
+      // Silent fail - backend being down is expected behavior
+      return null;
+    }
+  }
+}
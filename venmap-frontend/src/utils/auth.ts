@@ -0,0 +1,83 @@
+// Sign-in for backends that require accounts (AUTH_ENABLED=true). The session
+// token is attached to every backend request via authHeaders().
+const BACKEND_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface AuthSession {
+  token: string;
+  user: AuthUser;
+}
+
+export interface AuthStatus {
+  authRequired: boolean;
+  signupOpen: boolean;
+  inviteCodeRequired: boolean;
+  user: AuthUser | null; // Who the current token belongs to, if it is still valid
+}
+
+export interface SignupDetails {
+  email: string;
+  password: string;
+  name?: string;
+  inviteCode?: string;
+}
+
+let currentSession: AuthSession | null = null;
+let onUnauthorized: (() => void) | null = null;
+
+export const setAuthSession = (session: AuthSession | null) => {
+  currentSession = session;
+};
+
+export const getAuthSession = (): AuthSession | null => currentSession;
+
+export const authHeaders = (): Record<string, string> =>
+  currentSession ? { Authorization: `Bearer ${currentSession.token}` } : {};
+
+// Called when the backend rejects a request for want of a (valid) sign-in
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  onUnauthorized = handler;
+};
+
+export const reportUnauthorized = (response: Response) => {
+  if (response.status === 401) onUnauthorized?.();
+};
+
+const postCredentials = async (path: string, body: object): Promise<AuthSession> => {
+  const response = await fetch(`${BACKEND_BASE_URL}/api/auth/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return { token: data.token, user: data.user };
+};
+
+export const login = (email: string, password: string): Promise<AuthSession> =>
+  postCredentials('login', { email, password });
+
+export const signup = (details: SignupDetails): Promise<AuthSession> =>
+  postCredentials('signup', details);
+
+// Resolves to null when the backend can't be reached (or predates accounts)
+export const fetchAuthStatus = async (): Promise<AuthStatus | null> => {
+  try {
+    const response = await fetch(`${BACKEND_BASE_URL}/api/auth/status`, {
+      headers: { 'Content-Type': 'application/json', ...authHeaders() }
+    });
+    if (!response.ok) return null;
+    return await response.json();
+  } catch {
+    return null;
+  }
+};
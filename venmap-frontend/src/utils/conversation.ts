@@ -0,0 +1,59 @@
+// Multi-turn chat history helpers: normalisation and token-budget-aware
+// truncation before a conversation is sent to a provider
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Approximate tokens of context + history sent with each chat request
+export const CHAT_HISTORY_TOKEN_BUDGET = 12000;
+
+// Rough token estimate (~4 characters per token for English text)
+export const estimateTokens = (text = '') => Math.ceil(text.length / 4);
+
+// Drop empty messages, merge consecutive messages from the same role and make
+// sure the history starts with a user turn (Claude requires it)
+export const normalizeConversation = (messages: ConversationMessage[]): ConversationMessage[] => {
+  const normalized: ConversationMessage[] = [];
+
+  messages.forEach(message => {
+    const content = message.content.trim();
+    if (!content) return;
+
+    const previous = normalized[normalized.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content += `\n\n${content}`;
+    } else {
+      normalized.push({ role: message.role, content });
+    }
+  });
+
+  while (normalized.length > 0 && normalized[0].role !== 'user') {
+    normalized.shift();
+  }
+
+  return normalized;
+};
+
+// Keep the most recent messages that fit in the token budget. The latest
+// message is always kept; older turns are dropped oldest-first.
+export const truncateConversation = (messages: ConversationMessage[], tokenBudget: number): ConversationMessage[] => {
+  if (messages.length === 0) return messages;
+
+  const kept = [messages[messages.length - 1]];
+  let used = estimateTokens(kept[0].content);
+
+  for (let i = messages.length - 2; i >= 0; i--) {
+    const cost = estimateTokens(messages[i].content);
+    if (used + cost > tokenBudget) break;
+    kept.unshift(messages[i]);
+    used += cost;
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+
+  return kept;
+};
@@ -1,5 +1,6 @@
 // IndexedDB storage layer using Dexie.js
 import Dexie, { type Table } from 'dexie';
+import type { FinancialModel } from './financialModel';
 
 // Database interfaces
 export type DocumentType = 'businessPlan' | 'pitchDeck';
@@ -9,17 +10,44 @@ export interface DocumentContent {
   pitchDeck?: string;
 }
 
+export interface PlanSection {
+  key: string; // Matches a PLAN_SECTIONS key, or section-N for unrecognised headings
+  title: string;
+  content: string; // Section body in markdown, without the ## heading
+  updatedAt: string;
+}
+
 export interface BusinessPlan {
   id?: number;
   name: string;
   template: string;
   data: Record<string, string>; // Form data
   documents: DocumentContent;
+  sections?: PlanSection[]; // Structured business plan, assembled into documents.businessPlan
+  financialModel?: FinancialModel; // Inputs for the computed financial projections
+  copiedFromId?: number; // Plan this one was saved as a copy of
+  remoteId?: string; // Id of the synced copy on the backend, once pushed
+  remoteRevision?: number; // Backend revision this plan was last synced at
+  syncedAt?: string; // updatedAt when last synced; differs once the plan changes locally
   activeTab: DocumentType;
   createdAt: string;
   updatedAt: string;
 }
 
+// What caused a version snapshot to be taken
+export type PlanVersionSource = 'manual' | 'autosave' | 'generation' | 'restore' | 'sync';
+
+export interface PlanVersion {
+  id?: number;
+  businessPlanId: number;
+  source: PlanVersionSource;
+  data: Record<string, string>;
+  documents: DocumentContent;
+  sections?: PlanSection[];
+  financialModel?: FinancialModel;
+  createdAt: string;
+}
+
 export interface ChatSession {
   id?: number;
   businessPlanId?: number; // Optional reference to a business plan
@@ -28,6 +56,15 @@ export interface ChatSession {
   updatedAt: string;
 }
 
+export interface ChatAttachment {
+  id: number;
+  name: string;
+  type: string;
+  content: string;
+  size: number;
+  uploadedAt: string;
+}
+
 export interface ChatMessage {
   id?: number;
   sessionId: number;
@@ -35,6 +72,7 @@ export interface ChatMessage {
   message: string;
   timestamp: string;
   context?: string; // Business plan context used for this message
+  attachments?: ChatAttachment[]; // Files sent along with a user message
 }
 
 export interface UploadedDocument {
@@ -62,6 +100,7 @@ export class VentureMapDB extends Dexie {
   chatMessages!: Table<ChatMessage>;
   uploadedDocuments!: Table<UploadedDocument>;
   appSettings!: Table<AppSettings>;
+  planVersions!: Table<PlanVersion>;
 
   constructor() {
     super('VentureMapDatabase');
@@ -94,6 +133,47 @@ export class VentureMapDB extends Dexie {
         }
       });
     });
+
+    // Define schema v3 (plan version history)
+    this.version(3).stores({
+      businessPlans: '++id, name, template, activeTab, createdAt, updatedAt',
+      chatSessions: '++id, businessPlanId, title, createdAt, updatedAt',
+      chatMessages: '++id, sessionId, type, timestamp',
+      uploadedDocuments: '++id, name, type, uploadedAt, businessPlanId',
+      appSettings: '++id, &key, updatedAt',
+      planVersions: '++id, businessPlanId, source, createdAt'
+    });
+
+    // Define schema v4 (plans identified by id rather than name + template)
+    this.version(4).stores({
+      businessPlans: '++id, name, template, activeTab, copiedFromId, createdAt, updatedAt',
+      chatSessions: '++id, businessPlanId, title, createdAt, updatedAt',
+      chatMessages: '++id, sessionId, type, timestamp',
+      uploadedDocuments: '++id, name, type, uploadedAt, businessPlanId',
+      appSettings: '++id, &key, updatedAt',
+      planVersions: '++id, businessPlanId, source, createdAt'
+    }).upgrade(tx => {
+      // Names are now labels rather than keys; make sure every plan has one
+      return tx.table('businessPlans').toCollection().modify((plan: Record<string, unknown>) => {
+        if (typeof plan.name !== 'string' || !plan.name.trim()) {
+          const data = plan.data as Record<string, string> | undefined;
+          plan.name = data?.businessName || 'Untitled Plan';
+        }
+        if (!plan.updatedAt) {
+          plan.updatedAt = plan.createdAt || new Date().toISOString();
+        }
+      });
+    });
+
+    // Define schema v5 (backend sync)
+    this.version(5).stores({
+      businessPlans: '++id, name, template, activeTab, copiedFromId, remoteId, createdAt, updatedAt',
+      chatSessions: '++id, businessPlanId, title, createdAt, updatedAt',
+      chatMessages: '++id, sessionId, type, timestamp',
+      uploadedDocuments: '++id, name, type, uploadedAt, businessPlanId',
+      appSettings: '++id, &key, updatedAt',
+      planVersions: '++id, businessPlanId, source, createdAt'
+    });
   }
 
   // Method to delete and recreate database
@@ -106,6 +186,16 @@ export class VentureMapDB extends Dexie {
 // Database instance
 export const db = new VentureMapDB();
 
+// Oldest versions beyond this are pruned, per plan
+const MAX_VERSIONS_PER_PLAN = 50;
+
+// Clears a plan's link to its backend copy
+export const UNSYNCED: Pick<BusinessPlan, 'remoteId' | 'remoteRevision' | 'syncedAt'> = {
+  remoteId: undefined,
+  remoteRevision: undefined,
+  syncedAt: undefined
+};
+
 // Storage service class
 export class StorageService {
   // Initialize database with error handling
@@ -118,31 +208,47 @@ export class StorageService {
     }
   }
   // Business Plans
-  static async saveBusinessPlan(plan: Omit<BusinessPlan, 'id'>): Promise<number> {
+  // Updates the plan with the given id, or creates a new plan when there is none
+  static async saveBusinessPlan(plan: Omit<BusinessPlan, 'id'> & { id?: number | null }, source: PlanVersionSource = 'manual'): Promise<number> {
     const timestamp = new Date().toISOString();
+    const { id, ...fields } = plan;
+    const existing = id ? await db.businessPlans.get(id) : undefined;
     
-    // Check if plan with same name exists
-    const existing = await db.businessPlans
-      .where('name')
-      .equals(plan.name)
-      .and(p => p.template === plan.template)
-      .first();
-    
+    let planId: number;
     if (existing) {
-      // Update existing plan
+      // Update existing plan, keeping its original creation date
       await db.businessPlans.update(existing.id!, {
-        ...plan,
+        ...fields,
+        createdAt: existing.createdAt,
         updatedAt: timestamp
       });
-      return existing.id!;
+      planId = existing.id!;
     } else {
       // Create new plan
-      return await db.businessPlans.add({
-        ...plan,
+      planId = await db.businessPlans.add({
+        ...fields,
         createdAt: timestamp,
         updatedAt: timestamp
       });
     }
+
+    await this.addPlanVersion(planId, fields, source);
+    return planId;
+  }
+
+  static async renameBusinessPlan(id: number, name: string): Promise<void> {
+    await db.businessPlans.update(id, { name, updatedAt: new Date().toISOString() });
+  }
+
+  // Copy a saved plan (without its chats or history) under a new name
+  static async copyBusinessPlan(id: number, name: string): Promise<number> {
+    const source = await db.businessPlans.get(id);
+    if (!source) {
+      throw new Error('Plan not found');
+    }
+
+    // The copy is a new plan on the backend too, so it doesn't inherit the sync link
+    return this.saveBusinessPlan({ ...source, ...UNSYNCED, id: undefined, name, copiedFromId: id }, 'manual');
   }
 
   static async getBusinessPlans(): Promise<BusinessPlan[]> {
@@ -158,9 +264,10 @@ export class StorageService {
 
   static async deleteBusinessPlan(id: number): Promise<void> {
     try {
-      await db.transaction('rw', [db.businessPlans, db.chatSessions, db.chatMessages, db.uploadedDocuments], async () => {
-        // Delete the business plan
+      await db.transaction('rw', [db.businessPlans, db.chatSessions, db.chatMessages, db.uploadedDocuments, db.planVersions], async () => {
+        // Delete the business plan and its history
         await db.businessPlans.delete(id);
+        await db.planVersions.where('businessPlanId').equals(id).delete();
         
         // Delete associated chat sessions and messages
         const sessions = await db.chatSessions.where('businessPlanId').equals(id).toArray();
@@ -185,6 +292,43 @@ export class StorageService {
     }
   }
 
+  // Plan versions
+  static async addPlanVersion(
+    businessPlanId: number,
+    plan: Pick<BusinessPlan, 'data' | 'documents' | 'sections' | 'financialModel'>,
+    source: PlanVersionSource
+  ): Promise<number | undefined> {
+    const versions = await db.planVersions.where('businessPlanId').equals(businessPlanId).sortBy('createdAt');
+    const latest = versions[versions.length - 1];
+
+    // Saving the same content twice (e.g. an auto-save right after a manual save) isn't a new version
+    if (latest && JSON.stringify(latest.documents) === JSON.stringify(plan.documents) && JSON.stringify(latest.data) === JSON.stringify(plan.data)) {
+      return undefined;
+    }
+
+    const versionId = await db.planVersions.add({
+      businessPlanId,
+      source,
+      data: plan.data,
+      documents: plan.documents,
+      sections: plan.sections,
+      financialModel: plan.financialModel,
+      createdAt: new Date().toISOString()
+    });
+
+    const excess = versions.length + 1 - MAX_VERSIONS_PER_PLAN;
+    if (excess > 0) {
+      await db.planVersions.bulkDelete(versions.slice(0, excess).map(version => version.id!));
+    }
+
+    return versionId;
+  }
+
+  static async getPlanVersions(businessPlanId: number): Promise<PlanVersion[]> {
+    const versions = await db.planVersions.where('businessPlanId').equals(businessPlanId).sortBy('createdAt');
+    return versions.reverse();
+  }
+
   // Chat functionality
   static async createChatSession(title: string, businessPlanId?: number): Promise<number> {
     const timestamp = new Date().toISOString();
@@ -206,12 +350,20 @@ export class StorageService {
     return await query.toArray();
   }
 
-  static async addChatMessage(sessionId: number, type: 'user' | 'assistant', message: string, context?: string): Promise<number> {
+  static async updateChatSession(sessionId: number, changes: Partial<Pick<ChatSession, 'title' | 'businessPlanId'>>): Promise<void> {
+    await db.chatSessions.update(sessionId, {
+      ...changes,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  static async addChatMessage(sessionId: number, type: 'user' | 'assistant', message: string, context?: string, attachments?: ChatAttachment[]): Promise<number> {
     const messageId = await db.chatMessages.add({
       sessionId,
       type,
       message,
       context,
+      attachments,
       timestamp: new Date().toISOString()
     });
 
@@ -336,13 +488,15 @@ export class StorageService {
         db.chatSessions, 
         db.chatMessages, 
         db.uploadedDocuments, 
-        db.appSettings
+        db.appSettings,
+        db.planVersions
       ], async () => {
         await db.businessPlans.clear();
         await db.chatSessions.clear();
         await db.chatMessages.clear();
         await db.uploadedDocuments.clear();
         await db.appSettings.clear();
+        await db.planVersions.clear();
       });
     } catch (error) {
       // If transaction fails, recreate database
@@ -0,0 +1,167 @@
+// Word (.docx) export for plan documents, built in the browser with docx
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { parseInlineRuns, parseMarkdownBlocks, type MarkdownBlock } from './markdownBlocks';
+import type { ChartImage } from './planCharts';
+
+interface DocxExportOptions {
+  businessName: string;
+  documentTitle: string; // e.g. "Business Plan" or "Pitch Deck"
+  date?: Date;
+  charts?: ChartImage[]; // Placed after the table they were built from
+}
+
+const NUMBERED_LIST_REFERENCE = 'plan-numbered-list';
+const ACCENT_COLOR = 'DB2777';
+const TABLE_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'D1D5DB' };
+const MAX_IMAGE_WIDTH = 600; // Pixels at 96 DPI that fit inside the page margins
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3];
+
+const toTextRuns = (text: string, bold = false) =>
+  parseInlineRuns(text).map(run => new TextRun({ text: run.text, bold: run.bold || bold, italics: run.italic }));
+
+const buildTable = (headers: string[], rows: string[][]) => {
+  const columnCount = Math.max(headers.length, ...rows.map(row => row.length), 1);
+  const buildRow = (cells: string[], isHeader: boolean) =>
+    new TableRow({
+      tableHeader: isHeader,
+      children: Array.from({ length: columnCount }, (_, index) =>
+        new TableCell({
+          shading: isHeader ? { fill: 'F3E8FF' } : undefined,
+          margins: { top: 60, bottom: 60, left: 100, right: 100 },
+          children: [new Paragraph({ children: toTextRuns(cells[index] || '', isHeader) })]
+        })
+      )
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: {
+      top: TABLE_BORDER,
+      bottom: TABLE_BORDER,
+      left: TABLE_BORDER,
+      right: TABLE_BORDER,
+      insideHorizontal: TABLE_BORDER,
+      insideVertical: TABLE_BORDER
+    },
+    rows: [
+      ...(headers.length > 0 ? [buildRow(headers, true)] : []),
+      ...rows.map(row => buildRow(row, false))
+    ]
+  });
+};
+
+const buildChartParagraph = (chart: ChartImage) => {
+  const base64 = chart.dataUrl.slice(chart.dataUrl.indexOf(',') + 1);
+  const data = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const width = Math.min(chart.width, MAX_IMAGE_WIDTH);
+
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 200 },
+    children: [new ImageRun({
+      type: 'png',
+      data,
+      transformation: { width, height: Math.round(chart.height * (width / chart.width)) }
+    })]
+  });
+};
+
+// Each numbered list restarts at 1, so every list gets its own numbering instance
+const blocksToDocxChildren = (blocks: MarkdownBlock[], charts: ChartImage[] = []) => {
+  let listInstance = 0;
+  let tableIndex = 0;
+
+  return blocks.flatMap<Paragraph | Table>(block => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({
+          heading: HEADING_LEVELS[Math.min(block.level, HEADING_LEVELS.length) - 1],
+          children: toTextRuns(block.text)
+        })];
+      case 'paragraph':
+        return [new Paragraph({ children: toTextRuns(block.text), spacing: { after: 120 } })];
+      case 'list': {
+        const instance = listInstance++;
+        return block.items.map(item => new Paragraph({
+          children: toTextRuns(item),
+          ...(block.ordered
+            ? { numbering: { reference: NUMBERED_LIST_REFERENCE, level: 0, instance } }
+            : { bullet: { level: 0 } })
+        }));
+      }
+      case 'table': {
+        const chart = charts.find(image => image.tableIndex === tableIndex++);
+        return [
+          buildTable(block.headers, block.rows),
+          chart ? buildChartParagraph(chart) : new Paragraph({ children: [] })
+        ];
+      }
+      case 'rule':
+        return [new Paragraph({
+          children: [],
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } }
+        })];
+    }
+  });
+};
+
+const buildTitlePage = (options: DocxExportOptions) => {
+  const date = (options.date || new Date()).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return [
+    new Paragraph({ children: [], spacing: { before: 3000 } }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: options.businessName, bold: true, size: 56, color: ACCENT_COLOR })]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 200 },
+      children: [new TextRun({ text: options.documentTitle, size: 32 })]
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 400 },
+      children: [new TextRun({ text: date, size: 24, color: '6B7280' })]
+    }),
+    new Paragraph({ children: [new PageBreak()] })
+  ];
+};
+
+// Build a .docx from markdown with a title page; returns the file as a Blob
+export const exportMarkdownToDocx = async (markdown: string, options: DocxExportOptions): Promise<Blob> => {
+  const doc = new Document({
+    title: `${options.businessName} ${options.documentTitle}`,
+    creator: options.businessName,
+    styles: {
+      default: { document: { run: { font: 'Calibri', size: 22 } } }
+    },
+    numbering: {
+      config: [{
+        reference: NUMBERED_LIST_REFERENCE,
+        levels: [{ level: 0, format: LevelFormat.DECIMAL, text: '%1.', alignment: AlignmentType.START }]
+      }]
+    },
+    sections: [{
+      children: [...buildTitlePage(options), ...blocksToDocxChildren(parseMarkdownBlocks(markdown), options.charts)]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+};
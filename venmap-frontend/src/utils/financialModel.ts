@@ -0,0 +1,309 @@
+// Structured financial model: inputs, a deterministic monthly projection, and
+// the tables injected into the Financial Projections section. All currency
+// values are in whole dollars; rates are percentages (5 = 5%).
+
+export interface PricingTier {
+  id: string;
+  name: string;
+  monthlyPrice: number;
+  customerMix: number; // Share of customers on this tier, in %
+}
+
+export interface RevenueDrivers {
+  startingCustomers: number;
+  newCustomersPerMonth: number; // New customers in month 1
+  acquisitionGrowthRate: number; // Monthly growth of new customer acquisition, in %
+  monthlyChurnRate: number; // In %
+}
+
+export interface HeadcountRole {
+  id: string;
+  role: string;
+  count: number;
+  annualSalary: number;
+  startMonth: number; // 1-based month the role is filled
+}
+
+export interface OpexLine {
+  id: string;
+  name: string;
+  monthlyCost: number;
+  annualGrowthRate: number; // In %, applied at the start of each year
+}
+
+export interface FundingRound {
+  id: string;
+  name: string;
+  amount: number;
+  month: number; // 1-based month the cash arrives
+}
+
+export interface FinancialModel {
+  years: number; // Projection horizon, 3 to 5
+  startingCash: number;
+  revenue: RevenueDrivers;
+  pricingTiers: PricingTier[];
+  cogsPercent: number; // Cost of goods sold as % of revenue
+  payrollOverheadPercent: number; // Benefits and payroll taxes as % of salary
+  headcount: HeadcountRole[];
+  opex: OpexLine[];
+  funding: FundingRound[];
+}
+
+export interface MonthlyProjection {
+  month: number;
+  customers: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  payroll: number;
+  opex: number;
+  netIncome: number;
+  funding: number;
+  endingCash: number;
+}
+
+export interface AnnualProjection {
+  year: number;
+  endingCustomers: number;
+  headcount: number;
+  revenue: number;
+  cogs: number;
+  grossProfit: number;
+  grossMargin: number; // In %
+  payroll: number;
+  opex: number;
+  netIncome: number;
+  funding: number;
+  netCashFlow: number;
+  endingCash: number;
+}
+
+export interface FinancialSummary {
+  monthly: MonthlyProjection[];
+  annual: AnnualProjection[];
+  averageMonthlyBurn: number; // Average net cash outflow over the first 12 months, 0 if cash-flow positive
+  runwayMonths: number | null; // Months until cash runs out, null if it lasts the whole horizon
+  breakEvenMonth: number | null; // First month with non-negative net income, null if not reached
+}
+
+export const MIN_YEARS = 3;
+export const MAX_YEARS = 5;
+
+export const createModelId = () => Math.random().toString(36).slice(2, 10);
+
+export const DEFAULT_FINANCIAL_MODEL: FinancialModel = {
+  years: 3,
+  startingCash: 250000,
+  revenue: {
+    startingCustomers: 0,
+    newCustomersPerMonth: 20,
+    acquisitionGrowthRate: 5,
+    monthlyChurnRate: 3
+  },
+  pricingTiers: [
+    { id: 'starter', name: 'Starter', monthlyPrice: 29, customerMix: 70 },
+    { id: 'pro', name: 'Pro', monthlyPrice: 99, customerMix: 30 }
+  ],
+  cogsPercent: 20,
+  payrollOverheadPercent: 20,
+  headcount: [
+    { id: 'founder', role: 'Founder / CEO', count: 1, annualSalary: 90000, startMonth: 1 },
+    { id: 'engineer', role: 'Engineer', count: 2, annualSalary: 110000, startMonth: 1 }
+  ],
+  opex: [
+    { id: 'marketing', name: 'Marketing', monthlyCost: 5000, annualGrowthRate: 20 },
+    { id: 'software', name: 'Software & Hosting', monthlyCost: 1500, annualGrowthRate: 10 },
+    { id: 'office', name: 'Office & Admin', monthlyCost: 2000, annualGrowthRate: 5 }
+  ],
+  funding: [
+    { id: 'seed', name: 'Seed Round', amount: 1000000, month: 6 }
+  ]
+};
+
+const clampYears = (years: number) => Math.max(MIN_YEARS, Math.min(MAX_YEARS, Math.round(years) || MIN_YEARS));
+
+// Average monthly price per customer, weighting tiers by their customer mix.
+// Mixes are normalised so they don't have to add up to exactly 100.
+export const getAverageRevenuePerCustomer = (tiers: PricingTier[]) => {
+  const totalMix = tiers.reduce((sum, tier) => sum + Math.max(tier.customerMix, 0), 0);
+  if (totalMix === 0) return 0;
+  return tiers.reduce((sum, tier) => sum + tier.monthlyPrice * (Math.max(tier.customerMix, 0) / totalMix), 0);
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const computeFinancialModel = (model: FinancialModel): FinancialSummary => {
+  const totalMonths = clampYears(model.years) * 12;
+  const arpu = getAverageRevenuePerCustomer(model.pricingTiers);
+  const churn = model.revenue.monthlyChurnRate / 100;
+  const payrollMultiplier = 1 + model.payrollOverheadPercent / 100;
+
+  const monthly: MonthlyProjection[] = [];
+  let customers = model.revenue.startingCustomers;
+  let cash = model.startingCash;
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const yearIndex = Math.floor((month - 1) / 12);
+    const newCustomers = model.revenue.newCustomersPerMonth * Math.pow(1 + model.revenue.acquisitionGrowthRate / 100, month - 1);
+    customers = Math.max(customers * (1 - churn) + newCustomers, 0);
+
+    const revenue = customers * arpu;
+    const cogs = revenue * (model.cogsPercent / 100);
+    const payroll = sum(model.headcount
+      .filter(role => month >= role.startMonth)
+      .map(role => role.count * (role.annualSalary / 12) * payrollMultiplier));
+    const opex = sum(model.opex.map(line => line.monthlyCost * Math.pow(1 + line.annualGrowthRate / 100, yearIndex)));
+    const netIncome = revenue - cogs - payroll - opex;
+    const funding = sum(model.funding.filter(round => round.month === month).map(round => round.amount));
+    cash += netIncome + funding;
+
+    monthly.push({
+      month,
+      customers,
+      revenue,
+      cogs,
+      grossProfit: revenue - cogs,
+      payroll,
+      opex,
+      netIncome,
+      funding,
+      endingCash: cash
+    });
+  }
+
+  const annual: AnnualProjection[] = [];
+  for (let year = 1; year <= totalMonths / 12; year++) {
+    const months = monthly.slice((year - 1) * 12, year * 12);
+    const revenue = sum(months.map(m => m.revenue));
+    const cogs = sum(months.map(m => m.cogs));
+    const netIncome = sum(months.map(m => m.netIncome));
+    const funding = sum(months.map(m => m.funding));
+    const lastMonth = year * 12;
+
+    annual.push({
+      year,
+      endingCustomers: months[months.length - 1].customers,
+      headcount: sum(model.headcount.filter(role => role.startMonth <= lastMonth).map(role => role.count)),
+      revenue,
+      cogs,
+      grossProfit: revenue - cogs,
+      grossMargin: revenue > 0 ? ((revenue - cogs) / revenue) * 100 : 0,
+      payroll: sum(months.map(m => m.payroll)),
+      opex: sum(months.map(m => m.opex)),
+      netIncome,
+      funding,
+      netCashFlow: netIncome + funding,
+      endingCash: months[months.length - 1].endingCash
+    });
+  }
+
+  const firstYear = monthly.slice(0, 12);
+  const averageMonthlyBurn = Math.max(-sum(firstYear.map(m => m.netIncome)) / firstYear.length, 0);
+  const cashOut = monthly.find(m => m.endingCash < 0);
+  const breakEven = monthly.find(m => m.netIncome >= 0);
+
+  return {
+    monthly,
+    annual,
+    averageMonthlyBurn,
+    runwayMonths: cashOut ? cashOut.month - 1 : null,
+    breakEvenMonth: breakEven ? breakEven.month : null
+  };
+};
+
+export const formatCurrency = (value: number) => {
+  const rounded = Math.round(value);
+  const formatted = `$${Math.abs(rounded).toLocaleString('en-US')}`;
+  return rounded < 0 ? `(${formatted})` : formatted;
+};
+
+const formatMonth = (month: number | null, horizonMonths: number) =>
+  month === null ? `Not within ${horizonMonths / 12} years` : `Month ${month} (Year ${Math.ceil(month / 12)})`;
+
+const htmlTable = (headers: string[], rows: string[][]) => `<table class="business-table">
+<thead>
+<tr>${headers.map(header => `<th>${header}</th>`).join('')}</tr>
+</thead>
+<tbody>
+${rows.map(row => `<tr>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+
+// Key metrics plus P&L and cash flow tables, in the HTML table format the
+// plan prompts use so they render and export like the rest of the plan
+export const financialModelToMarkdown = (model: FinancialModel, summary: FinancialSummary = computeFinancialModel(model)): string => {
+  const years = summary.annual.map(year => `Year ${year.year}`);
+  const row = (label: string, values: string[]) => [`<strong>${label}</strong>`, ...values];
+  const horizonMonths = summary.monthly.length;
+
+  const metrics = htmlTable(['Metric', 'Value'], [
+    ['Starting cash', formatCurrency(model.startingCash)],
+    ['Total funding raised', formatCurrency(sum(model.funding.map(round => round.amount)))],
+    ['Average monthly burn (Year 1)', formatCurrency(summary.averageMonthlyBurn)],
+    ['Runway', summary.runwayMonths === null ? `Cash positive through Year ${horizonMonths / 12}` : `${summary.runwayMonths} months`],
+    ['Break-even', formatMonth(summary.breakEvenMonth, horizonMonths)],
+    ['Average revenue per customer', `${formatCurrency(getAverageRevenuePerCustomer(model.pricingTiers))}/month`]
+  ]);
+
+  const profitAndLoss = htmlTable(['', ...years], [
+    row('Revenue', summary.annual.map(year => formatCurrency(year.revenue))),
+    row('Cost of goods sold', summary.annual.map(year => formatCurrency(year.cogs))),
+    row('Gross profit', summary.annual.map(year => formatCurrency(year.grossProfit))),
+    row('Gross margin', summary.annual.map(year => `${year.grossMargin.toFixed(1)}%`)),
+    row('Payroll', summary.annual.map(year => formatCurrency(year.payroll))),
+    row('Operating expenses', summary.annual.map(year => formatCurrency(year.opex))),
+    row('Net income', summary.annual.map(year => formatCurrency(year.netIncome)))
+  ]);
+
+  const cashFlow = htmlTable(['', ...years], [
+    row('Net income', summary.annual.map(year => formatCurrency(year.netIncome))),
+    row('Funding', summary.annual.map(year => formatCurrency(year.funding))),
+    row('Net cash flow', summary.annual.map(year => formatCurrency(year.netCashFlow))),
+    row('Ending cash', summary.annual.map(year => formatCurrency(year.endingCash))),
+    row('Customers (year end)', summary.annual.map(year => Math.round(year.endingCustomers).toLocaleString('en-US'))),
+    row('Headcount (year end)', summary.annual.map(year => String(year.headcount)))
+  ]);
+
+  return `### Key Metrics
+${metrics}
+
+### Profit & Loss
+${profitAndLoss}
+
+### Cash Flow
+${cashFlow}`;
+};
+
+// Plain-text digest given to the AI so its narrative matches the computed figures
+export const describeFinancialModel = (model: FinancialModel, summary: FinancialSummary = computeFinancialModel(model)): string => {
+  const lines = [
+    `Pricing tiers: ${model.pricingTiers.map(tier => `${tier.name} at ${formatCurrency(tier.monthlyPrice)}/month (${tier.customerMix}% of customers)`).join('; ') || 'none'}`,
+    `Cost of goods sold: ${model.cogsPercent}% of revenue`,
+    `Headcount plan: ${model.headcount.map(role => `${role.count} x ${role.role} from month ${role.startMonth}`).join('; ') || 'none'}`,
+    `Funding rounds: ${model.funding.map(round => `${round.name} of ${formatCurrency(round.amount)} in month ${round.month}`).join('; ') || 'none'}`,
+    ...summary.annual.map(year =>
+      `Year ${year.year}: revenue ${formatCurrency(year.revenue)}, net income ${formatCurrency(year.netIncome)}, ending cash ${formatCurrency(year.endingCash)}, ${Math.round(year.endingCustomers)} customers`
+    ),
+    `Average monthly burn in year 1: ${formatCurrency(summary.averageMonthlyBurn)}`,
+    `Runway: ${summary.runwayMonths === null ? 'cash lasts the whole projection' : `${summary.runwayMonths} months`}`,
+    `Break-even: ${formatMonth(summary.breakEvenMonth, summary.monthly.length)}`
+  ];
+
+  return lines.join('\n');
+};
+
+// The computed tables always start at this heading, so they can be replaced
+// when the model changes without touching the AI-written commentary above them
+const FINANCIAL_TABLES_HEADING = '### Key Metrics';
+
+export const stripFinancialTables = (content: string) => {
+  const start = content.indexOf(FINANCIAL_TABLES_HEADING);
+  return (start === -1 ? content : content.slice(0, start)).trim();
+};
+
+export const withFinancialTables = (content: string, model: FinancialModel) => {
+  const commentary = stripFinancialTables(content);
+  const tables = financialModelToMarkdown(model);
+  return commentary ? `${commentary}\n\n${tables}` : tables;
+};
@@ -0,0 +1,88 @@
+// Markdown to HTML for everything rendered with dangerouslySetInnerHTML: the
+// document pane, chat messages and HTML exports. Text comes from the AI and
+// from uploaded documents, so the parsed HTML always goes through an
+// allowlist sanitizer before it reaches the page.
+import DOMPurify from 'dompurify';
+import { Marked } from 'marked';
+
+const ALLOWED_TAGS = [
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'br', 'hr',
+  'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sup', 'sub', 'mark', 'small',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'code', 'a',
+  'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td', 'caption', 'colgroup', 'col',
+  'div', 'span', 'input'
+];
+
+const ALLOWED_ATTR = ['href', 'title', 'class', 'colspan', 'rowspan', 'align', 'start', 'type', 'checked', 'disabled'];
+
+// Model-supplied classes could restyle the app (e.g. "fixed inset-0"), so only
+// the table class the plan prompts ask for survives
+const ALLOWED_CLASSES = ['business-table'];
+
+const SAFE_URL_PATTERN = /^(https?:|mailto:|#)/i;
+
+const documentParser = new Marked({ gfm: true, breaks: false });
+const chatParser = new Marked({ gfm: true, breaks: true });
+
+let hooksInstalled = false;
+
+const installHooks = () => {
+  if (hooksInstalled) return;
+  hooksInstalled = true;
+
+  DOMPurify.addHook('afterSanitizeAttributes', node => {
+    if (node.hasAttribute('class')) {
+      const classes = (node.getAttribute('class') || '').split(/\s+/).filter(name => ALLOWED_CLASSES.includes(name));
+      if (classes.length > 0) {
+        node.setAttribute('class', classes.join(' '));
+      } else {
+        node.removeAttribute('class');
+      }
+    }
+
+    // Every table, HTML or GFM, gets the shared table styling
+    if (node.tagName === 'TABLE') {
+      node.classList.add('business-table');
+    }
+
+    if (node.tagName === 'A') {
+      const href = node.getAttribute('href') || '';
+      if (!SAFE_URL_PATTERN.test(href.trim())) {
+        node.removeAttribute('href');
+      } else if (!href.startsWith('#')) {
+        node.setAttribute('target', '_blank');
+        node.setAttribute('rel', 'noopener noreferrer');
+      }
+    }
+
+    // GFM task lists are the only inputs allowed, and they're read-only
+    if (node.tagName === 'INPUT') {
+      if (node.getAttribute('type') !== 'checkbox') {
+        node.remove();
+      } else {
+        node.setAttribute('disabled', '');
+      }
+    }
+  });
+};
+
+export const sanitizeHtml = (html: string): string => {
+  installHooks();
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS,
+    ALLOWED_ATTR,
+    ALLOW_DATA_ATTR: false
+  });
+};
+
+// Full documents: single line breaks join into one paragraph
+export const renderMarkdown = (text: string): string => {
+  if (!text) return '';
+  return sanitizeHtml(documentParser.parse(text, { async: false }));
+};
+
+// Chat replies: single line breaks are kept, as people type them
+export const renderChatMessage = (text: string): string => {
+  if (!text) return '';
+  return sanitizeHtml(chatParser.parse(text, { async: false }));
+};
@@ -0,0 +1,175 @@
+// Lightweight markdown block parser for document exports (DOCX, PDF) that need
+// structure rather than HTML. Understands the subset the plan prompts produce:
+// headings, paragraphs, bullet/numbered lists, pipe tables, the HTML
+// `business-table` blocks, and horizontal rules.
+
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; headers: string[]; rows: string[][] }
+  | { type: 'rule' };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*•+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/;
+const PIPE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const PIPE_SEPARATOR_PATTERN = /^\s*\|[-:|\s]+\|\s*$/;
+
+const stripTags = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .trim();
+
+const splitPipeRow = (row: string) =>
+  row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+// Parse an HTML <table> into header and body rows
+export const parseHtmlTable = (html: string): { headers: string[]; rows: string[][] } => {
+  const rowMatches = html.match(/<tr[\s\S]*?<\/tr>/gi) || [];
+  let headers: string[] = [];
+  const rows: string[][] = [];
+
+  rowMatches.forEach(rowHtml => {
+    const isHeaderRow = /<th[\s>]/i.test(rowHtml);
+    const cells = (rowHtml.match(/<t[hd][\s\S]*?<\/t[hd]>/gi) || []).map(stripTags);
+
+    if (isHeaderRow && headers.length === 0) {
+      headers = cells;
+    } else {
+      rows.push(cells);
+    }
+  });
+
+  return { headers, rows };
+};
+
+export const parseMarkdownBlocks = (markdown: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ').trim() });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    // HTML tables span several lines until the closing tag
+    if (/^<table[\s>]/i.test(trimmed)) {
+      flushParagraph();
+      const tableLines = [line];
+      while (!/<\/table>/i.test(lines[i]) && i < lines.length - 1) {
+        i++;
+        tableLines.push(lines[i]);
+      }
+      blocks.push({ type: 'table', ...parseHtmlTable(tableLines.join('\n')) });
+      continue;
+    }
+
+    if (PIPE_ROW_PATTERN.test(line) && PIPE_SEPARATOR_PATTERN.test(lines[i + 1] || '')) {
+      flushParagraph();
+      const headers = splitPipeRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && PIPE_ROW_PATTERN.test(lines[i])) {
+        rows.push(splitPipeRow(lines[i]));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'table', headers, rows });
+      continue;
+    }
+
+    const heading = trimmed.match(HEADING_PATTERN);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2].trim() });
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    const numbered = line.match(NUMBERED_PATTERN);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const match = lines[i].match(ordered ? NUMBERED_PATTERN : BULLET_PATTERN);
+        if (!match) break;
+        items.push(match[1].trim());
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    paragraph.push(stripTags(trimmed));
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// Split **bold**, __bold__ and *italic* spans into styled runs. Underscore
+// italics are ignored so identifiers like snake_case survive intact.
+export const parseInlineRuns = (text: string): InlineRun[] => {
+  const runs: InlineRun[] = [];
+  const pattern = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*)/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, match.index) });
+    }
+    const token = match[0];
+    const isBold = token.startsWith('**') || token.startsWith('__');
+    runs.push({
+      text: token.slice(isBold ? 2 : 1, isBold ? -2 : -1),
+      bold: isBold || undefined,
+      italic: !isBold || undefined
+    });
+    lastIndex = match.index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex) });
+  }
+
+  return runs;
+};
+
+// Plain text with inline markdown markers removed
+export const stripInlineMarkdown = (text: string) =>
+  parseInlineRuns(text).map(run => run.text).join('');
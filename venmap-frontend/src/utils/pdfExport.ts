@@ -0,0 +1,336 @@
+// PDF export for plan documents, rendered in the browser with jsPDF so no print
+// dialog or popup is needed. Produces a cover page, a linked table of contents
+// built from `##` headings, running headers/footers, real tables and charts.
+import { jsPDF } from 'jspdf';
+import { autoTable } from 'jspdf-autotable';
+import { parseInlineRuns, parseMarkdownBlocks, stripInlineMarkdown, type InlineRun } from './markdownBlocks';
+import type { ChartImage } from './planCharts';
+
+interface PdfExportOptions {
+  filename: string;
+  businessName: string;
+  documentTitle: string; // e.g. "Business Plan" or "Pitch Deck"
+  date?: Date;
+  charts?: ChartImage[]; // Drawn after the table they were built from
+}
+
+interface TocEntry {
+  title: string;
+  page: number;
+}
+
+type RGB = [number, number, number];
+
+const MARGIN = 56;
+const CONTENT_TOP = 72;
+const CONTENT_BOTTOM_OFFSET = 64;
+const TOC_ENTRIES_PER_PAGE = 28;
+const TOC_LINE_HEIGHT = 22;
+
+const ACCENT: RGB = [219, 39, 119];
+const TEXT: RGB = [55, 65, 81];
+const HEADING: RGB = [31, 41, 55];
+const MUTED: RGB = [107, 114, 128];
+const RULE: RGB = [209, 213, 219];
+
+const HEADING_SIZES = [22, 16, 13, 12, 11, 11];
+const BODY_SIZE = 11;
+const LINE_HEIGHT_FACTOR = 1.45;
+
+const fontStyle = (run: InlineRun) =>
+  run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+
+class PdfWriter {
+  readonly doc: jsPDF;
+  readonly toc: TocEntry[] = [];
+  y = CONTENT_TOP;
+
+  constructor() {
+    this.doc = new jsPDF({ unit: 'pt', format: 'a4', compress: true });
+  }
+
+  get pageWidth() {
+    return this.doc.internal.pageSize.getWidth();
+  }
+
+  get pageHeight() {
+    return this.doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth() {
+    return this.pageWidth - MARGIN * 2;
+  }
+
+  get contentBottom() {
+    return this.pageHeight - CONTENT_BOTTOM_OFFSET;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = CONTENT_TOP;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.contentBottom) {
+      this.newPage();
+    }
+  }
+
+  // Lay out styled runs word by word so bold/italic spans can share a line
+  writeRuns(runs: InlineRun[], options: { size?: number; color?: RGB; indent?: number; bold?: boolean } = {}) {
+    const size = options.size ?? BODY_SIZE;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * LINE_HEIGHT_FACTOR;
+    const maxWidth = this.contentWidth - indent;
+    const words = runs.flatMap(run =>
+      run.text.split(/(\s+)/).filter(Boolean).map(text => ({ text, style: fontStyle({ ...run, bold: run.bold || options.bold }) }))
+    );
+
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...(options.color ?? TEXT));
+    this.ensureSpace(lineHeight);
+
+    let x = 0;
+    words.forEach(word => {
+      this.doc.setFont('helvetica', word.style);
+      const isSpace = !word.text.trim();
+      const width = this.doc.getTextWidth(word.text);
+
+      if (isSpace) {
+        if (x > 0) x += width;
+        return;
+      }
+      if (x > 0 && x + width > maxWidth) {
+        this.y += lineHeight;
+        this.ensureSpace(lineHeight);
+        x = 0;
+      }
+      this.doc.text(word.text, MARGIN + indent + x, this.y, { baseline: 'top' });
+      x += width;
+    });
+
+    this.y += lineHeight;
+  }
+
+  heading(level: number, text: string) {
+    const size = HEADING_SIZES[Math.min(level, HEADING_SIZES.length) - 1];
+    const spaceBefore = level <= 2 ? 18 : 10;
+
+    if (level === 1 && this.y > CONTENT_TOP) {
+      // Top-level headings (e.g. pitch deck slides) each get their own page
+      this.newPage();
+    } else if (level === 2) {
+      // Start major sections on a fresh page when little room is left
+      this.ensureSpace(size * 6);
+    }
+    this.y += this.y === CONTENT_TOP ? 0 : spaceBefore;
+    this.ensureSpace(size * 3);
+
+    if (level === 2) {
+      this.toc.push({ title: stripInlineMarkdown(text), page: this.doc.getCurrentPageInfo().pageNumber });
+    }
+
+    this.writeRuns(parseInlineRuns(text), { size, color: level <= 2 ? ACCENT : HEADING, bold: true });
+    if (level <= 2) {
+      this.doc.setDrawColor(...RULE);
+      this.doc.setLineWidth(0.75);
+      this.doc.line(MARGIN, this.y - 2, MARGIN + this.contentWidth, this.y - 2);
+    }
+    this.y += 6;
+  }
+
+  paragraph(text: string) {
+    this.writeRuns(parseInlineRuns(text));
+    this.y += 6;
+  }
+
+  list(items: string[], ordered: boolean) {
+    items.forEach((item, index) => {
+      this.ensureSpace(BODY_SIZE * LINE_HEIGHT_FACTOR);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(BODY_SIZE);
+      this.doc.setTextColor(...TEXT);
+      if (ordered) {
+        this.doc.text(`${index + 1}.`, MARGIN + 4, this.y, { baseline: 'top' });
+      } else {
+        this.doc.setFillColor(...ACCENT);
+        this.doc.circle(MARGIN + 7, this.y + BODY_SIZE / 2, 1.8, 'F');
+      }
+      this.writeRuns(parseInlineRuns(item), { indent: 20 });
+      this.y += 2;
+    });
+    this.y += 6;
+  }
+
+  table(headers: string[], rows: string[][]) {
+    this.ensureSpace(60);
+    let finalY = this.y;
+
+    autoTable(this.doc, {
+      startY: this.y,
+      head: headers.length > 0 ? [headers.map(stripInlineMarkdown)] : undefined,
+      body: rows.map(row => row.map(stripInlineMarkdown)),
+      theme: 'grid',
+      margin: { left: MARGIN, right: MARGIN, top: CONTENT_TOP, bottom: CONTENT_BOTTOM_OFFSET },
+      styles: { font: 'helvetica', fontSize: 9, textColor: TEXT, lineColor: RULE, lineWidth: 0.5, cellPadding: 5 },
+      headStyles: { fillColor: ACCENT, textColor: [255, 255, 255], fontStyle: 'bold' },
+      alternateRowStyles: { fillColor: [249, 250, 251] },
+      didDrawPage: data => {
+        finalY = data.cursor?.y ?? finalY;
+      }
+    });
+
+    this.y = finalY + 14;
+  }
+
+  image(dataUrl: string, width: number, height: number) {
+    const drawWidth = Math.min(width, this.contentWidth);
+    const drawHeight = height * (drawWidth / width);
+    this.ensureSpace(drawHeight + 14);
+    this.doc.addImage(dataUrl, 'PNG', MARGIN, this.y, drawWidth, drawHeight);
+    this.y += drawHeight + 14;
+  }
+
+  rule() {
+    this.ensureSpace(16);
+    this.y += 6;
+    this.doc.setDrawColor(...RULE);
+    this.doc.setLineWidth(0.5);
+    this.doc.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y);
+    this.y += 10;
+  }
+}
+
+const drawCoverPage = (writer: PdfWriter, options: PdfExportOptions) => {
+  const { doc, pageWidth, pageHeight } = writer;
+  const date = (options.date || new Date()).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  doc.setFillColor(...ACCENT);
+  doc.rect(0, 0, pageWidth, 12, 'F');
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(32);
+  doc.setTextColor(...HEADING);
+  const nameLines = doc.splitTextToSize(options.businessName, writer.contentWidth);
+  doc.text(nameLines, pageWidth / 2, pageHeight * 0.38, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(18);
+  doc.setTextColor(...ACCENT);
+  doc.text(options.documentTitle, pageWidth / 2, pageHeight * 0.38 + nameLines.length * 38 + 10, { align: 'center' });
+
+  doc.setFontSize(12);
+  doc.setTextColor(...MUTED);
+  doc.text(date, pageWidth / 2, pageHeight * 0.38 + nameLines.length * 38 + 44, { align: 'center' });
+};
+
+// The TOC pages are inserted after the body is laid out, once heading page
+// numbers are known; entries link to their pages.
+const drawTableOfContents = (writer: PdfWriter, tocPageCount: number) => {
+  const { doc } = writer;
+
+  for (let i = 0; i < tocPageCount; i++) {
+    doc.insertPage(2 + i);
+  }
+
+  writer.toc.forEach((entry, index) => {
+    const tocPage = Math.floor(index / TOC_ENTRIES_PER_PAGE);
+    const row = index % TOC_ENTRIES_PER_PAGE;
+    const targetPage = entry.page + tocPageCount;
+    doc.setPage(2 + tocPage);
+
+    if (row === 0) {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(20);
+      doc.setTextColor(...ACCENT);
+      doc.text(tocPage === 0 ? 'Table of Contents' : 'Table of Contents (continued)', MARGIN, CONTENT_TOP, { baseline: 'top' });
+    }
+
+    const y = CONTENT_TOP + 44 + row * TOC_LINE_HEIGHT;
+    const pageLabel = String(targetPage);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(BODY_SIZE);
+    doc.setTextColor(...TEXT);
+    const pageLabelWidth = doc.getTextWidth(pageLabel);
+    const title = doc.splitTextToSize(entry.title, writer.contentWidth - pageLabelWidth - 40)[0];
+    doc.text(title, MARGIN, y, { baseline: 'top' });
+    doc.text(pageLabel, MARGIN + writer.contentWidth, y, { baseline: 'top', align: 'right' });
+
+    // Dotted leader between title and page number
+    const leaderStart = MARGIN + doc.getTextWidth(title) + 6;
+    const leaderEnd = MARGIN + writer.contentWidth - pageLabelWidth - 6;
+    doc.setDrawColor(...RULE);
+    doc.setLineDashPattern([1, 3], 0);
+    doc.line(leaderStart, y + BODY_SIZE - 2, leaderEnd, y + BODY_SIZE - 2);
+    doc.setLineDashPattern([], 0);
+
+    doc.link(MARGIN, y, writer.contentWidth, BODY_SIZE + 4, { pageNumber: targetPage });
+  });
+};
+
+// Headers and footers on every page except the cover
+const drawPageFurniture = (writer: PdfWriter, options: PdfExportOptions) => {
+  const { doc, pageWidth, pageHeight } = writer;
+  const pageCount = doc.getNumberOfPages();
+
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.setTextColor(...MUTED);
+    doc.text(options.businessName, MARGIN, 36);
+    doc.text(options.documentTitle, pageWidth - MARGIN, 36, { align: 'right' });
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.5);
+    doc.line(MARGIN, 44, pageWidth - MARGIN, 44);
+
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth / 2, pageHeight - 32, { align: 'center' });
+  }
+};
+
+// Build a PDF from markdown and trigger a download; returns the page count
+export const exportMarkdownToPdf = (markdown: string, options: PdfExportOptions): number => {
+  const writer = new PdfWriter();
+  const blocks = parseMarkdownBlocks(markdown);
+
+  // The cover page already carries the document title
+  if (blocks[0]?.type === 'heading' && blocks[0].level === 1) {
+    blocks.shift();
+  }
+
+  writer.doc.setProperties({ title: `${options.businessName} ${options.documentTitle}`, creator: 'VentureMap' });
+  drawCoverPage(writer, options);
+  writer.newPage();
+
+  let tableIndex = 0;
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+        writer.heading(block.level, block.text);
+        break;
+      case 'paragraph':
+        writer.paragraph(block.text);
+        break;
+      case 'list':
+        writer.list(block.items, block.ordered);
+        break;
+      case 'table': {
+        writer.table(block.headers, block.rows);
+        const chart = options.charts?.find(image => image.tableIndex === tableIndex++);
+        if (chart) writer.image(chart.dataUrl, chart.width, chart.height);
+        break;
+      }
+      case 'rule':
+        writer.rule();
+        break;
+    }
+  });
+
+  if (writer.toc.length > 0) {
+    drawTableOfContents(writer, Math.ceil(writer.toc.length / TOC_ENTRIES_PER_PAGE));
+  }
+  drawPageFurniture(writer, options);
+
+  writer.doc.save(`${options.filename}.pdf`);
+  return writer.doc.getNumberOfPages();
+};
@@ -0,0 +1,109 @@
+// Pitch deck slide schema, prompt construction and markdown (de)serialization.
+// Decks are stored as markdown in documents.pitchDeck: one `---` block per slide
+// with a `# Slide N: Title` heading, bullet lines, and optional visual/notes lines.
+
+export interface PitchDeckSlide {
+  title: string;
+  bullets: string[];
+  visual?: string; // Suggested chart, image or diagram
+  speakerNotes?: string;
+}
+
+export interface PitchDeckOptions {
+  slideCount: number;
+  includeSpeakerNotes: boolean;
+  includeVisuals: boolean;
+}
+
+export const MIN_SLIDES = 5;
+export const MAX_SLIDES = 20;
+
+export const DEFAULT_PITCH_DECK_OPTIONS: PitchDeckOptions = {
+  slideCount: 10,
+  includeSpeakerNotes: true,
+  includeVisuals: true
+};
+
+const VISUAL_PREFIX = '**Visual:**';
+const NOTES_PREFIX = '**Speaker Notes:**';
+
+export const clampSlideCount = (count: number) =>
+  Math.max(MIN_SLIDES, Math.min(MAX_SLIDES, Math.round(count) || DEFAULT_PITCH_DECK_OPTIONS.slideCount));
+
+export const buildPitchDeckPrompt = (businessPlan: string, businessName: string, options: PitchDeckOptions): string => {
+  const slideCount = clampSlideCount(options.slideCount);
+  const optionalLines = [
+    options.includeVisuals ? `${VISUAL_PREFIX} one sentence describing a chart, image or diagram for the slide` : '',
+    options.includeSpeakerNotes ? `${NOTES_PREFIX} two to four sentences the presenter should say` : ''
+  ].filter(Boolean).join('\n');
+
+  return `Create an investor pitch deck for ${businessName || 'this business'} with exactly ${slideCount} slides, based on the business plan below.
+
+Business Plan:
+${businessPlan}
+
+Follow the usual investor narrative (title, problem, solution, market, business model, traction or go-to-market, competition, financials, team, funding ask, closing) and adapt it to ${slideCount} slides. Use concrete facts and figures from the business plan; do not invent numbers that contradict it.
+
+Format every slide exactly like this, with nothing before the first slide and nothing after the last:
+
+---
+# Slide 1: Slide Title
+- Short bullet point (at most 12 words)
+- Short bullet point
+${optionalLines}
+
+Use three to five bullets per slide. Do not use tables or HTML.`;
+};
+
+// Parse deck markdown back into slides. Tolerates missing `---` separators as
+// long as each slide starts with a `# Slide N:` heading.
+export const parsePitchDeckMarkdown = (markdown: string): PitchDeckSlide[] => {
+  const blocks = markdown
+    .split(/^---\s*$|(?=^#\s+Slide\s+\d+)/m)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  const slides: PitchDeckSlide[] = [];
+
+  blocks.forEach(block => {
+    const lines = block.split('\n').map(line => line.trim());
+    const headingIndex = lines.findIndex(line => line.startsWith('#'));
+    if (headingIndex === -1) return;
+
+    const title = lines[headingIndex].replace(/^#+\s*/, '').replace(/^Slide\s+\d+\s*[:.-]\s*/i, '').trim();
+    const slide: PitchDeckSlide = { title: title || `Slide ${slides.length + 1}`, bullets: [] };
+    let collectingNotes = false;
+
+    lines.slice(headingIndex + 1).forEach(line => {
+      if (!line) return;
+
+      if (line.startsWith(VISUAL_PREFIX)) {
+        slide.visual = line.slice(VISUAL_PREFIX.length).trim();
+        collectingNotes = false;
+      } else if (line.startsWith(NOTES_PREFIX)) {
+        slide.speakerNotes = line.slice(NOTES_PREFIX.length).trim();
+        collectingNotes = true;
+      } else if (collectingNotes) {
+        slide.speakerNotes = `${slide.speakerNotes} ${line}`.trim();
+      } else if (/^[-*•]\s+/.test(line)) {
+        slide.bullets.push(line.replace(/^[-*•]\s+/, ''));
+      } else {
+        // Subtitles and other free text lines are kept as bullets so nothing is lost
+        slide.bullets.push(line);
+      }
+    });
+
+    slides.push(slide);
+  });
+
+  return slides;
+};
+
+export const slidesToMarkdown = (slides: PitchDeckSlide[]): string =>
+  slides.map((slide, index) => {
+    const lines = [`---`, `# Slide ${index + 1}: ${slide.title}`];
+    slide.bullets.forEach(bullet => lines.push(`- ${bullet}`));
+    if (slide.visual) lines.push('', `${VISUAL_PREFIX} ${slide.visual}`);
+    if (slide.speakerNotes) lines.push('', `${NOTES_PREFIX} ${slide.speakerNotes}`);
+    return lines.join('\n');
+  }).join('\n\n');
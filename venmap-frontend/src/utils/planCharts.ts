@@ -0,0 +1,377 @@
+// Charts for plan tables that have year/month columns (or rows). Detection
+// works on the same table blocks the exporters use, and charts render to an
+// SVG string for the document pane and HTML export, or to a PNG for PDF/DOCX.
+import { parseHtmlTable, parseMarkdownBlocks } from './markdownBlocks';
+
+export type ChartKind = 'line' | 'bar';
+type ValueUnit = 'currency' | 'percent' | 'number';
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+}
+
+export interface ChartSpec {
+  title: string;
+  kind: ChartKind;
+  unit: ValueUnit;
+  labels: string[]; // Periods along the x axis
+  series: ChartSeries[];
+}
+
+// A table's chart, keyed by the table's position among the document's tables
+export interface TableChart {
+  tableIndex: number;
+  spec: ChartSpec;
+}
+
+// A chart rendered for PDF/DOCX exports
+export interface ChartImage {
+  tableIndex: number;
+  dataUrl: string; // PNG data URL
+  width: number;
+  height: number;
+}
+
+// Markdown split so that each chartable table ends a segment
+export interface ChartSegment {
+  markdown: string;
+  chart?: ChartSpec;
+}
+
+const MAX_SERIES = 6;
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 320;
+const SERIES_COLORS = ['#ec4899', '#8b5cf6', '#3b82f6', '#10b981', '#f59e0b', '#ef4444'];
+
+const MONTH_NAMES = 'jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec';
+const PERIOD_PATTERN = new RegExp(
+  `^((year|yr|fy|month|quarter|q)\\s*-?\\s*\\d{1,4}|q[1-4]\\s*'?\\d{2,4}|(19|20)\\d{2}(\\s*[-/]\\s*\\d{2,4})?|(${MONTH_NAMES})[a-z]*\\.?(\\s*'?\\d{2,4})?)$`,
+  'i'
+);
+const MONTH_PATTERN = new RegExp(`^(month\\s*\\d+|(${MONTH_NAMES})[a-z]*)`, 'i');
+
+const cleanCell = (cell: string) => cell.replace(/[*_`]/g, '').replace(/<[^>]+>/g, '').trim();
+
+const isPeriod = (cell: string) => PERIOD_PATTERN.test(cleanCell(cell));
+
+// Parse "$1.2M", "(45,000)", "-$3,000", "12.5%" and similar into a number and its unit
+const parseValue = (cell: string): { value: number; unit: ValueUnit } | null => {
+  let text = cleanCell(cell).replace(/\s+/g, '');
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/^[-−–]/.test(text)) {
+    negative = true;
+    text = text.slice(1);
+  }
+
+  const match = text.match(/^(\$|€|£)?(\d[\d,]*(\.\d+)?|\.\d+)(k|m|mm|b|bn)?(%)?$/i);
+  if (!match) return null;
+
+  const multipliers: Record<string, number> = { k: 1e3, m: 1e6, mm: 1e6, b: 1e9, bn: 1e9 };
+  const value = parseFloat(match[2].replace(/,/g, '')) * (match[4] ? multipliers[match[4].toLowerCase()] : 1);
+
+  return {
+    value: negative ? -value : value,
+    unit: match[5] ? 'percent' : match[1] ? 'currency' : 'number'
+  };
+};
+
+// Build series from `lines` (label + cells), keeping only fully numeric ones in the dominant unit
+const buildSeries = (lines: { name: string; cells: string[] }[]) => {
+  const parsed = lines
+    .map(line => ({ name: cleanCell(line.name), values: line.cells.map(parseValue) }))
+    .filter(line => line.name && line.values.every(value => value !== null))
+    .map(line => {
+      const values = line.values as { value: number; unit: ValueUnit }[];
+      const unit = values.some(value => value.unit === 'currency') ? 'currency'
+        : values.every(value => value.unit === 'percent') ? 'percent' : 'number';
+      return { name: line.name, unit, values: values.map(value => value.value) };
+    });
+
+  const unitCounts = (['currency', 'number', 'percent'] as ValueUnit[])
+    .map(unit => ({ unit, count: parsed.filter(line => line.unit === unit).length }))
+    .sort((a, b) => b.count - a.count);
+  const unit = unitCounts[0].unit;
+
+  return {
+    unit,
+    series: parsed
+      .filter(line => line.unit === unit)
+      .slice(0, MAX_SERIES)
+      .map(({ name, values }) => ({ name, values }))
+  };
+};
+
+// Returns a chart when the table has at least two period columns (or rows)
+// and at least one fully numeric row (or column) to plot against them
+export const chartFromTable = (headers: string[], rows: string[][], title: string): ChartSpec | null => {
+  const periodColumns = headers
+    .map((header, index) => ({ header, index }))
+    .filter(({ header, index }) => index > 0 && isPeriod(header));
+
+  let labels: string[];
+  let result: { unit: ValueUnit; series: ChartSeries[] };
+
+  if (periodColumns.length >= 2) {
+    labels = periodColumns.map(({ header }) => cleanCell(header));
+    result = buildSeries(rows.map(row => ({
+      name: row[0] || '',
+      cells: periodColumns.map(({ index }) => row[index] || '')
+    })));
+  } else {
+    const periodRows = rows.filter(row => isPeriod(row[0] || ''));
+    if (periodRows.length < 2) return null;
+
+    labels = periodRows.map(row => cleanCell(row[0]));
+    result = buildSeries(headers.slice(1).map((header, index) => ({
+      name: header,
+      cells: periodRows.map(row => row[index + 1] || '')
+    })));
+  }
+
+  if (result.series.length === 0) return null;
+
+  // Months and long horizons read better as lines, a few years as grouped bars
+  const isMonthly = labels.some(label => MONTH_PATTERN.test(label));
+  return {
+    title,
+    kind: isMonthly || labels.length > 5 ? 'line' : 'bar',
+    unit: result.unit,
+    labels,
+    series: result.series
+  };
+};
+
+// Charts for every chartable table in a document, in table order
+export const detectTableCharts = (markdown: string): TableChart[] => {
+  const charts: TableChart[] = [];
+  let title = '';
+  let tableIndex = 0;
+
+  parseMarkdownBlocks(markdown).forEach(block => {
+    if (block.type === 'heading') {
+      title = cleanCell(block.text);
+    } else if (block.type === 'table') {
+      const spec = chartFromTable(block.headers, block.rows, title);
+      if (spec) charts.push({ tableIndex, spec });
+      tableIndex++;
+    }
+  });
+
+  return charts;
+};
+
+// Split markdown after each chartable table so the chart can be shown beneath
+// it. Table detection mirrors parseMarkdownBlocks; unfinished tables (still
+// streaming) are left alone.
+export const splitAtChartTables = (markdown: string): ChartSegment[] => {
+  const lines = markdown.split('\n');
+  const segments: ChartSegment[] = [];
+  let current: string[] = [];
+  let title = '';
+
+  const pushTable = (tableLines: string[], headers: string[], rows: string[][]) => {
+    current.push(...tableLines);
+    const chart = chartFromTable(headers, rows, title);
+    if (chart) {
+      segments.push({ markdown: current.join('\n'), chart });
+      current = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const heading = trimmed.match(/^#{1,6}\s+(.*)$/);
+    if (heading) title = cleanCell(heading[1]);
+
+    if (/^<table[\s>]/i.test(trimmed)) {
+      const end = lines.findIndex((candidate, index) => index >= i && /<\/table>/i.test(candidate));
+      if (end === -1) {
+        current.push(...lines.slice(i));
+        break;
+      }
+      const tableLines = lines.slice(i, end + 1);
+      const { headers, rows } = parseHtmlTable(tableLines.join('\n'));
+      pushTable(tableLines, headers, rows);
+      i = end;
+      continue;
+    }
+
+    if (/^\s*\|.*\|\s*$/.test(line) && /^\s*\|[-:|\s]+\|\s*$/.test(lines[i + 1] || '')) {
+      let end = i + 2;
+      while (end < lines.length && /^\s*\|.*\|\s*$/.test(lines[end])) end++;
+      const tableLines = lines.slice(i, end);
+      const splitRow = (row: string) => row.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+      pushTable(tableLines, splitRow(tableLines[0]), tableLines.slice(2).map(splitRow));
+      i = end - 1;
+      continue;
+    }
+
+    current.push(line);
+  }
+
+  if (current.length > 0) segments.push({ markdown: current.join('\n') });
+  return segments;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatAxisValue = (value: number, unit: ValueUnit) => {
+  if (unit === 'percent') return `${Math.round(value * 10) / 10}%`;
+  const abs = Math.abs(value);
+  const short = abs >= 1e9 ? `${+(abs / 1e9).toFixed(1)}B`
+    : abs >= 1e6 ? `${+(abs / 1e6).toFixed(1)}M`
+      : abs >= 1e3 ? `${+(abs / 1e3).toFixed(1)}K`
+        : `${+abs.toFixed(1)}`;
+  return `${value < 0 ? '-' : ''}${unit === 'currency' ? '$' : ''}${short}`;
+};
+
+// Round the axis step to 1, 2, 2.5 or 5 times a power of ten
+const niceStep = (range: number, ticks: number) => {
+  const raw = range / ticks || 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 2.5, 5, 10].find(multiple => multiple * magnitude >= raw) || 10;
+  return step * magnitude;
+};
+
+export const renderChartSvg = (
+  spec: ChartSpec,
+  { width = CHART_WIDTH, height = CHART_HEIGHT, isDarkMode = false }: { width?: number; height?: number; isDarkMode?: boolean } = {}
+): string => {
+  const text = isDarkMode ? '#e5e7eb' : '#374151';
+  const muted = isDarkMode ? '#9ca3af' : '#6b7280';
+  const grid = isDarkMode ? '#374151' : '#e5e7eb';
+  const background = isDarkMode ? '#1f2937' : '#ffffff';
+
+  // Lay the legend out first, wrapping onto extra rows, so the plot starts below it
+  const legend: { name: string; x: number; row: number }[] = [];
+  let legendX = 64;
+  let legendRow = 0;
+  spec.series.forEach(series => {
+    const itemWidth = 24 + series.name.length * 6;
+    if (legendX + itemWidth > width - 20 && legendX > 64) {
+      legendX = 64;
+      legendRow++;
+    }
+    legend.push({ name: series.name, x: legendX, row: legendRow });
+    legendX += itemWidth;
+  });
+
+  const padding = { top: 56 + legendRow * 16, right: 20, bottom: 40, left: 64 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+
+  const allValues = spec.series.flatMap(series => series.values);
+  const step = niceStep(Math.max(...allValues, 0) - Math.min(...allValues, 0), 5);
+  const min = Math.floor(Math.min(...allValues, 0) / step) * step;
+  const max = Math.max(Math.ceil(Math.max(...allValues, 0) / step) * step, min + step);
+  const y = (value: number) => padding.top + plotHeight - ((value - min) / (max - min)) * plotHeight;
+  const band = plotWidth / spec.labels.length;
+  const x = (index: number) => padding.left + band * index + band / 2;
+
+  const parts: string[] = [
+    `<rect width="${width}" height="${height}" rx="8" fill="${background}"/>`,
+    `<text x="${padding.left}" y="22" font-size="14" font-weight="bold" fill="${text}">${escapeXml(spec.title)}</text>`
+  ];
+
+  legend.forEach((item, index) => {
+    const color = SERIES_COLORS[index % SERIES_COLORS.length];
+    const top = 32 + item.row * 16;
+    parts.push(`<rect x="${item.x}" y="${top}" width="10" height="10" rx="2" fill="${color}"/>`);
+    parts.push(`<text x="${item.x + 14}" y="${top + 9}" font-size="11" fill="${muted}">${escapeXml(item.name)}</text>`);
+  });
+
+  // Grid lines and y axis labels
+  for (let value = min; value <= max + step / 2; value += step) {
+    parts.push(`<line x1="${padding.left}" x2="${width - padding.right}" y1="${y(value)}" y2="${y(value)}" stroke="${value === 0 ? muted : grid}" stroke-width="1"/>`);
+    parts.push(`<text x="${padding.left - 8}" y="${y(value) + 4}" font-size="10" text-anchor="end" fill="${muted}">${formatAxisValue(value, spec.unit)}</text>`);
+  }
+
+  // X axis labels, thinned out for long monthly series
+  const labelEvery = Math.ceil(spec.labels.length / 12);
+  spec.labels.forEach((label, index) => {
+    if (index % labelEvery !== 0) return;
+    parts.push(`<text x="${x(index)}" y="${height - padding.bottom + 18}" font-size="10" text-anchor="middle" fill="${muted}">${escapeXml(label)}</text>`);
+  });
+
+  if (spec.kind === 'bar') {
+    const groupWidth = band * 0.7;
+    const barWidth = groupWidth / spec.series.length;
+    spec.series.forEach((series, seriesIndex) => {
+      const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+      series.values.forEach((value, index) => {
+        const barX = x(index) - groupWidth / 2 + barWidth * seriesIndex;
+        const top = Math.min(y(value), y(0));
+        parts.push(`<rect x="${barX}" y="${top}" width="${Math.max(barWidth - 2, 1)}" height="${Math.abs(y(value) - y(0))}" rx="2" fill="${color}"/>`);
+      });
+    });
+  } else {
+    spec.series.forEach((series, seriesIndex) => {
+      const color = SERIES_COLORS[seriesIndex % SERIES_COLORS.length];
+      const points = series.values.map((value, index) => `${x(index)},${y(value)}`).join(' ');
+      parts.push(`<polyline points="${points}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"/>`);
+      if (series.values.length <= 24) {
+        series.values.forEach((value, index) => {
+          parts.push(`<circle cx="${x(index)}" cy="${y(value)}" r="3" fill="${color}"/>`);
+        });
+      }
+    });
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif" role="img" aria-label="${escapeXml(spec.title || 'Chart')}">${parts.join('')}</svg>`;
+};
+
+// Rasterise a chart to a PNG data URL via an off-screen canvas (browser only)
+const renderChartPng = (spec: ChartSpec, width: number, height: number, scale = 2): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    const url = URL.createObjectURL(new Blob([renderChartSvg(spec, { width, height })], { type: 'image/svg+xml' }));
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render chart'));
+    };
+    image.src = url;
+  });
+
+// PNG images for every chartable table, for the PDF and DOCX exporters
+export const renderChartImages = async (markdown: string): Promise<ChartImage[]> => {
+  const charts = detectTableCharts(markdown);
+  return Promise.all(charts.map(async ({ tableIndex, spec }) => ({
+    tableIndex,
+    dataUrl: await renderChartPng(spec, CHART_WIDTH, CHART_HEIGHT),
+    width: CHART_WIDTH,
+    height: CHART_HEIGHT
+  })));
+};
+
+// Inline SVG charts after each chartable table, for HTML exports
+export const renderMarkdownWithCharts = (markdown: string, renderMarkdown: (text: string) => string) =>
+  splitAtChartTables(markdown)
+    .map(segment => renderMarkdown(segment.markdown) + (segment.chart
+      ? `<figure style="margin: 1rem 0; max-width: 100%;">${renderChartSvg(segment.chart)}</figure>`
+      : ''))
+    .join('\n');
@@ -0,0 +1,241 @@
+// Business plan section definitions and helpers for section-by-section generation
+import type { PlanSection } from './database';
+
+export type SectionAction = 'regenerate' | 'expand' | 'shorten';
+
+export interface PlanSectionDefinition {
+  key: string;
+  title: string;
+  description: string;
+  formSection?: string; // Key into BusinessPlanCreator's formSections
+  fields: string[]; // Form fields that feed this section
+}
+
+export const PLAN_SECTIONS: PlanSectionDefinition[] = [
+  {
+    key: 'executiveSummary',
+    title: 'Executive Summary',
+    description: 'Brief overview highlighting key points, mission, and value proposition.',
+    formSection: 'overview',
+    fields: ['executiveSummary']
+  },
+  {
+    key: 'problemStatement',
+    title: 'Problem Statement',
+    description: 'Clear definition of the problem being solved and market opportunity.',
+    formSection: 'overview',
+    fields: ['problemStatement']
+  },
+  {
+    key: 'solution',
+    title: 'Solution & Value Proposition',
+    description: 'Detailed description of the solution and unique value offered.',
+    formSection: 'overview',
+    fields: ['solution']
+  },
+  {
+    key: 'marketAnalysis',
+    title: 'Market Analysis',
+    description: 'Target market, size, trends, and competitive landscape analysis.',
+    formSection: 'market',
+    fields: ['marketAnalysis']
+  },
+  {
+    key: 'businessModel',
+    title: 'Business Model',
+    description: 'Revenue streams, pricing strategy, and how the business makes money.',
+    formSection: 'market',
+    fields: ['businessModel']
+  },
+  {
+    key: 'marketingStrategy',
+    title: 'Marketing & Sales Strategy',
+    description: 'Customer acquisition, marketing channels, and sales process.',
+    formSection: 'market',
+    fields: ['marketingStrategy']
+  },
+  {
+    key: 'operationsPlan',
+    title: 'Operations Plan',
+    description: 'Day-to-day operations, workflow, resources, and logistics.',
+    formSection: 'operations',
+    fields: ['operationsPlan']
+  },
+  {
+    key: 'managementTeam',
+    title: 'Management Team',
+    description: 'Key personnel, roles, experience, and organizational structure.',
+    formSection: 'operations',
+    fields: ['managementTeam']
+  },
+  {
+    key: 'technicalRequirements',
+    title: 'Technology & Technical Requirements',
+    description: 'Technical infrastructure, development needs, and technology stack.',
+    formSection: 'technical',
+    fields: ['technicalRequirements', 'integrationNeeds']
+  },
+  {
+    key: 'securityCompliance',
+    title: 'Security & Compliance',
+    description: 'Data protection measures, regulatory compliance, and security protocols.',
+    formSection: 'technical',
+    fields: ['securityConsiderations', 'complianceType']
+  },
+  {
+    key: 'financialProjections',
+    title: 'Financial Projections',
+    description: 'Revenue forecasts, expense projections, and financial milestones.',
+    formSection: 'financial',
+    fields: ['financialProjections']
+  },
+  {
+    key: 'fundingRequest',
+    title: 'Funding Requirements',
+    description: 'Capital needed, use of funds, and expected returns for investors.',
+    formSection: 'financial',
+    fields: ['fundingRequest']
+  },
+  {
+    key: 'riskAnalysis',
+    title: 'Risk Analysis',
+    description: 'Potential risks, mitigation strategies, and contingency plans.',
+    fields: []
+  },
+  {
+    key: 'implementationTimeline',
+    title: 'Implementation Timeline',
+    description: 'Key milestones, phases, and timeline for business launch and growth.',
+    fields: []
+  },
+  {
+    key: 'appendices',
+    title: 'Appendices',
+    description: 'Supporting documents, charts, and additional relevant information.',
+    fields: []
+  }
+];
+
+export const TABLE_FORMATTING_RULE = `CRITICAL FORMATTING RULE: Any data that should be presented in table format (financial projections, timelines, feature comparisons, etc.) must use proper HTML table syntax with <table>, <thead>, <tbody>, <tr>, <th>, and <td> tags. Add class="business-table" to all table elements. Do NOT use Markdown table syntax with pipes (|) and dashes (-) as these will not render correctly.
+
+Example table format:
+<table class="business-table">
+<thead>
+<tr><th>Item</th><th>Year 1</th><th>Year 2</th></tr>
+</thead>
+<tbody>
+<tr><td>Revenue</td><td>$100K</td><td>$200K</td></tr>
+</tbody>
+</table>`;
+
+export const getPlanTitle = (businessName: string) => `Business Plan: ${businessName || 'Your Business'}`;
+
+// Text above the first section: a title or intro written into the document by
+// hand. Empty when it's only the generated title, so that follows the business name.
+export const getPlanPreamble = (markdown: string): string => {
+  const preamble = markdown.split(/^##\s+/m)[0].trim();
+  return /^# Business Plan: [^\n]*$/.test(preamble) ? '' : preamble;
+};
+
+// Join sections into the markdown document shown in the Business Plan tab,
+// under the hand-written preamble if there is one
+export const assemblePlanMarkdown = (businessName: string, sections: PlanSection[], preamble = ''): string => {
+  const body = sections
+    .map(section => `## ${section.title}\n${section.content.trim()}`)
+    .join('\n\n');
+
+  return `${preamble || `# ${getPlanTitle(businessName)}`}\n\n${body}`;
+};
+
+// Split an existing markdown plan on its `##` headings, matching known section
+// titles where possible. Used for plans saved before sections existed and for
+// the fallback template.
+export const parseSectionsFromMarkdown = (markdown: string): PlanSection[] => {
+  const timestamp = new Date().toISOString();
+  const sections: PlanSection[] = [];
+  const chunks = markdown.split(/^##\s+/m).slice(1);
+
+  chunks.forEach((chunk, index) => {
+    const newlineIndex = chunk.indexOf('\n');
+    const title = (newlineIndex === -1 ? chunk : chunk.slice(0, newlineIndex)).trim();
+    const content = newlineIndex === -1 ? '' : chunk.slice(newlineIndex + 1).trim();
+    const definition = PLAN_SECTIONS.find(def => def.title.toLowerCase() === title.toLowerCase());
+
+    sections.push({
+      key: definition?.key || `section-${index + 1}`,
+      title,
+      content,
+      updatedAt: timestamp
+    });
+  });
+
+  return sections;
+};
+
+// Re-split a hand-edited plan, keeping the timestamps of sections that didn't change
+export const syncSectionsFromMarkdown = (markdown: string, previous: PlanSection[]): PlanSection[] =>
+  parseSectionsFromMarkdown(markdown).map(section => {
+    const unchanged = previous.find(old => old.key === section.key && old.title === section.title && old.content.trim() === section.content);
+    return unchanged ? { ...section, updatedAt: unchanged.updatedAt } : section;
+  });
+
+// Models often repeat the section heading despite being told not to
+export const stripSectionHeading = (content: string, title: string): string => {
+  const escapedTitle = title.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return content.replace(new RegExp(`^\\s*#{1,3}\\s*${escapedTitle}\\s*\\n`, 'i'), '');
+};
+
+export const buildSectionPrompt = (
+  definition: Pick<PlanSectionDefinition, 'title' | 'description'>,
+  businessName: string,
+  businessInfo: string,
+  action: SectionAction,
+  currentContent = '',
+  computedFigures = '' // Output of the financial model, for the Financial Projections section
+): string => {
+  const header = `You are writing the "${definition.title}" section of a business plan for ${businessName || 'a new business'}.
+
+Business information:
+${businessInfo}
+
+Section purpose: ${definition.description}${computedFigures ? `
+
+Computed financial model (these figures are authoritative):
+${computedFigures}` : ''}`;
+
+  let instruction: string;
+  if (action === 'expand' && currentContent) {
+    instruction = `Here is the current version of the section:
+
+${currentContent}
+
+Expand this section with more depth: add specific details, examples, figures and actionable recommendations while keeping the existing structure and facts.`;
+  } else if (action === 'shorten' && currentContent) {
+    instruction = `Here is the current version of the section:
+
+${currentContent}
+
+Rewrite this section to be roughly half the length. Keep the most important facts, figures and recommendations.`;
+  } else {
+    instruction = 'Write this section so it is professional, detailed, and actionable. Include specific recommendations and next steps where appropriate.';
+  }
+
+  if (computedFigures) {
+    // The P&L, cash flow and key metrics tables are appended from the model itself
+    return `${header}
+
+${instruction}
+
+Write commentary that explains the computed figures, the assumptions behind them and the key risks. Use only the figures given above and do NOT invent any other numbers. Do NOT include any tables; the financial tables are added automatically after your text.
+
+Return only the body of the section in markdown. Do NOT include the "## ${definition.title}" heading itself; use ### for any sub-headings.`;
+  }
+
+  return `${header}
+
+${instruction}
+
+Return only the body of the section in markdown. Do NOT include the "## ${definition.title}" heading itself; use ### for any sub-headings.
+
+${TABLE_FORMATTING_RULE}`;
+};
@@ -0,0 +1,237 @@
+// Mirrors saved plans to the backend's /api/plans store so a team can work
+// from several browsers. Each local plan remembers the backend revision it was
+// last synced at; a plan changed on both sides is settled last-write-wins by
+// updatedAt and reported as a conflict, with the losing copy kept in the plan's
+// version history.
+import { authHeaders } from './auth';
+import { StorageService, UNSYNCED, db, type BusinessPlan } from './database';
+
+const BACKEND_BASE_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:3001';
+export const PLAN_SYNC_ENABLED = import.meta.env.VITE_PLAN_SYNC === 'true';
+export const PLAN_SYNC_INTERVAL_MS = 60 * 1000;
+
+// Backend deletes that failed (e.g. offline), retried on the next sync
+const PENDING_DELETES_KEY = 'pendingPlanDeletes';
+
+type SyncedFields = Pick<BusinessPlan, 'name' | 'template' | 'data' | 'documents' | 'sections' | 'financialModel' | 'activeTab' | 'updatedAt'>;
+
+interface RemotePlan extends SyncedFields {
+  id: string;
+  revision: number;
+  createdAt: string;
+}
+
+type RemotePlanSummary = Pick<RemotePlan, 'id' | 'name' | 'revision' | 'updatedAt'>;
+
+export interface PlanSyncConflict {
+  planName: string;
+  kept: 'local' | 'server'; // Whose edit won; the other is in version history
+}
+
+export interface PlanSyncResult {
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  changedPlanIds: number[]; // Local plans the server copy replaced or deleted
+  conflicts: PlanSyncConflict[];
+}
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<{ status: number; body: T }> => {
+  const response = await fetch(`${BACKEND_BASE_URL}/api/plans${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...authHeaders() }
+  });
+  const body = await response.json().catch(() => ({}));
+
+  // 404 and 409 are answers the sync handles, not failures
+  if (!response.ok && response.status !== 404 && response.status !== 409) {
+    throw new Error(body.message || `HTTP ${response.status}: ${response.statusText}`);
+  }
+  return { status: response.status, body };
+};
+
+const toRemote = (plan: BusinessPlan): SyncedFields => ({
+  name: plan.name,
+  template: plan.template,
+  data: plan.data,
+  documents: plan.documents,
+  sections: plan.sections,
+  financialModel: plan.financialModel,
+  activeTab: plan.activeTab,
+  updatedAt: plan.updatedAt
+});
+
+const fromRemote = (remote: RemotePlan): Omit<BusinessPlan, 'id' | 'createdAt'> => ({
+  name: remote.name,
+  template: remote.template,
+  data: remote.data,
+  documents: remote.documents,
+  sections: remote.sections,
+  financialModel: remote.financialModel,
+  activeTab: remote.activeTab || 'businessPlan',
+  remoteId: remote.id,
+  remoteRevision: remote.revision,
+  updatedAt: remote.updatedAt,
+  syncedAt: remote.updatedAt
+});
+
+const markSynced = (plan: BusinessPlan, remote: RemotePlan) =>
+  db.businessPlans.update(plan.id!, { remoteId: remote.id, remoteRevision: remote.revision, syncedAt: plan.updatedAt });
+
+// Sends a local plan to the backend. Returns the stored plan, or the server's
+// copy with conflict set when it has changed since the plan was last synced.
+const push = async (plan: BusinessPlan, force = false): Promise<{ remote: RemotePlan; conflict: boolean }> => {
+  if (plan.remoteId) {
+    const { status, body } = await request<{ plan: RemotePlan }>(`/${plan.remoteId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ plan: toRemote(plan), baseRevision: plan.remoteRevision, force })
+    });
+    if (status === 409) return { remote: body.plan, conflict: true };
+    if (status !== 404) {
+      await markSynced(plan, body.plan);
+      return { remote: body.plan, conflict: false };
+    }
+  }
+
+  // Never pushed, or the backend no longer has it
+  const { body } = await request<{ plan: RemotePlan }>('', {
+    method: 'POST',
+    body: JSON.stringify({ plan: toRemote(plan) })
+  });
+  await markSynced(plan, body.plan);
+  return { remote: body.plan, conflict: false };
+};
+
+// Overwrites (or adds) the local plan with the server copy, unless it was saved
+// again while the sync ran. Returns the local id, or null if it was skipped.
+const pull = async (remote: RemotePlan, local?: BusinessPlan): Promise<number | null> => {
+  return db.transaction('rw', [db.businessPlans, db.planVersions], async () => {
+    let planId: number;
+    if (local) {
+      const current = await db.businessPlans.get(local.id!);
+      if (!current || current.updatedAt !== local.updatedAt) return null;
+      await db.businessPlans.update(local.id!, fromRemote(remote));
+      planId = local.id!;
+    } else {
+      planId = await db.businessPlans.add({ ...fromRemote(remote), createdAt: remote.createdAt });
+    }
+
+    await StorageService.addPlanVersion(planId, remote, 'sync');
+    return planId;
+  });
+};
+
+const fetchRemote = async (remoteId: string): Promise<RemotePlan> =>
+  (await request<{ plan: RemotePlan }>(`/${remoteId}`)).body.plan;
+
+// Last write wins; the losing edit stays in the local version history
+const resolveConflict = async (plan: BusinessPlan, remote: RemotePlan, result: PlanSyncResult) => {
+  if (Date.parse(plan.updatedAt) >= Date.parse(remote.updatedAt)) {
+    await StorageService.addPlanVersion(plan.id!, remote, 'sync');
+    await push(plan, true);
+    result.pushed++;
+    result.conflicts.push({ planName: plan.name, kept: 'local' });
+  } else if (await pull(remote, plan)) {
+    result.pulled++;
+    result.changedPlanIds.push(plan.id!);
+    result.conflicts.push({ planName: plan.name, kept: 'server' });
+  }
+};
+
+const flushPendingDeletes = async () => {
+  const pending = await StorageService.getSetting<string[]>(PENDING_DELETES_KEY, []);
+  if (pending.length === 0) return;
+
+  const failed: string[] = [];
+  for (const remoteId of pending) {
+    try {
+      await request(`/${remoteId}`, { method: 'DELETE' });
+    } catch {
+      failed.push(remoteId);
+    }
+  }
+  await StorageService.setSetting(PENDING_DELETES_KEY, failed);
+};
+
+// Deletes the backend copy of a plan that was deleted locally, queueing the
+// delete for the next sync if the backend can't be reached
+export const deleteRemotePlan = async (remoteId: string): Promise<void> => {
+  try {
+    await request(`/${remoteId}`, { method: 'DELETE' });
+  } catch (error) {
+    console.warn('Plan delete not synced yet:', error);
+    const pending = await StorageService.getSetting<string[]>(PENDING_DELETES_KEY, []);
+    await StorageService.setSetting(PENDING_DELETES_KEY, [...pending, remoteId]);
+  }
+};
+
+const syncAll = async (): Promise<PlanSyncResult> => {
+  const result: PlanSyncResult = { pushed: 0, pulled: 0, deleted: 0, changedPlanIds: [], conflicts: [] };
+
+  await flushPendingDeletes();
+  const { body } = await request<{ plans: RemotePlanSummary[]; deleted: string[] }>('');
+  const remotePlans = new Map(body.plans.map(remote => [remote.id, remote]));
+  const deletedRemotely = new Set(body.deleted);
+  const linked = new Set<string>();
+
+  for (const plan of await db.businessPlans.toArray()) {
+    const isDirty = plan.updatedAt !== plan.syncedAt;
+    const summary = plan.remoteId ? remotePlans.get(plan.remoteId) : undefined;
+    if (plan.remoteId) linked.add(plan.remoteId);
+
+    if (plan.remoteId && deletedRemotely.has(plan.remoteId)) {
+      if (isDirty) {
+        // Edited here after another browser deleted it, so keep it as a new plan
+        await push({ ...plan, ...UNSYNCED });
+        result.pushed++;
+        result.conflicts.push({ planName: plan.name, kept: 'local' });
+      } else {
+        await StorageService.deleteBusinessPlan(plan.id!);
+        result.deleted++;
+        result.changedPlanIds.push(plan.id!);
+      }
+      continue;
+    }
+
+    if (!summary) {
+      await push({ ...plan, ...UNSYNCED });
+      result.pushed++;
+    } else if (summary.revision === plan.remoteRevision) {
+      if (!isDirty) continue;
+      const { remote, conflict } = await push(plan);
+      if (conflict) {
+        await resolveConflict(plan, remote, result);
+      } else {
+        result.pushed++;
+      }
+    } else if (!isDirty) {
+      if (await pull(await fetchRemote(summary.id), plan)) {
+        result.pulled++;
+        result.changedPlanIds.push(plan.id!);
+      }
+    } else {
+      await resolveConflict(plan, await fetchRemote(summary.id), result);
+    }
+  }
+
+  // Plans created in other browsers
+  for (const summary of body.plans) {
+    if (linked.has(summary.id)) continue;
+    await pull(await fetchRemote(summary.id));
+    result.pulled++;
+  }
+
+  return result;
+};
+
+let runningSync: Promise<PlanSyncResult> | null = null;
+
+// Pushes local changes and pulls remote ones. Overlapping calls share one run.
+export const syncPlans = (): Promise<PlanSyncResult> => {
+  if (!runningSync) {
+    runningSync = syncAll().finally(() => {
+      runningSync = null;
+    });
+  }
+  return runningSync;
+};
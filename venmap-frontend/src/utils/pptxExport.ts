@@ -0,0 +1,121 @@
+// PowerPoint (.pptx) export for pitch decks, built in the browser with pptxgenjs
+import PptxGenJS from 'pptxgenjs';
+import { parseInlineRuns } from './markdownBlocks';
+import { parsePitchDeckMarkdown, type PitchDeckSlide } from './pitchDeck';
+
+export type SlideTheme = 'light' | 'dark';
+
+interface ThemeColors {
+  background: string;
+  title: string;
+  text: string;
+  accent: string;
+  muted: string;
+  panel: string;
+}
+
+// Mirrors the app's pink/purple palette in both colour modes
+const THEMES: Record<SlideTheme, ThemeColors> = {
+  light: {
+    background: 'FFFFFF',
+    title: '1F2937',
+    text: '374151',
+    accent: 'DB2777',
+    muted: '6B7280',
+    panel: 'F3E8FF'
+  },
+  dark: {
+    background: '111827',
+    title: 'F9FAFB',
+    text: 'E5E7EB',
+    accent: 'F472B6',
+    muted: '9CA3AF',
+    panel: '312E81'
+  }
+};
+
+interface PptxExportOptions {
+  filename: string;
+  businessName: string;
+  theme: SlideTheme;
+}
+
+// Turn **bold** and *italic* markdown into pptx text runs
+const toTextRuns = (text: string, options: PptxGenJS.TextPropsOptions): PptxGenJS.TextProps[] =>
+  parseInlineRuns(text).map(run => ({
+    text: run.text,
+    options: { ...options, bold: run.bold || options.bold, italic: run.italic || options.italic }
+  }));
+
+const addSlide = (pptx: PptxGenJS, slide: PitchDeckSlide, index: number, total: number, options: PptxExportOptions) => {
+  const colors = THEMES[options.theme];
+  const pptSlide = pptx.addSlide();
+  pptSlide.background = { color: colors.background };
+
+  // Accent bar and title
+  pptSlide.addShape(pptx.ShapeType.rect, { x: 0, y: 0, w: 0.15, h: '100%', fill: { color: colors.accent } });
+  pptSlide.addText(slide.title, {
+    x: 0.6, y: 0.4, w: 12.1, h: 0.9,
+    fontSize: 32, bold: true, color: colors.title, fontFace: 'Arial'
+  });
+
+  // Body bullets, narrowed when there is a suggested visual to place beside them
+  const bodyWidth = slide.visual ? 7.4 : 12.1;
+  if (slide.bullets.length > 0) {
+    const bulletRuns = slide.bullets.flatMap(bullet =>
+      toTextRuns(bullet, { fontSize: 20, color: colors.text, fontFace: 'Arial' }).map((run, runIndex, runs) => ({
+        text: run.text,
+        options: {
+          ...run.options,
+          bullet: runIndex === 0 ? { code: '25CF' } : undefined,
+          breakLine: runIndex === runs.length - 1,
+          paraSpaceAfter: 10
+        }
+      }))
+    );
+    pptSlide.addText(bulletRuns, { x: 0.6, y: 1.5, w: bodyWidth, h: 5.2, valign: 'top' });
+  }
+
+  if (slide.visual) {
+    pptSlide.addShape(pptx.ShapeType.roundRect, {
+      x: 8.4, y: 1.5, w: 4.3, h: 4.6,
+      fill: { color: colors.panel },
+      line: { color: colors.accent, dashType: 'dash', width: 1 },
+      rectRadius: 0.1
+    });
+    pptSlide.addText([
+      { text: 'Suggested visual', options: { bold: true, fontSize: 12, color: colors.accent, breakLine: true } },
+      { text: slide.visual, options: { fontSize: 14, italic: true, color: colors.text } }
+    ], { x: 8.6, y: 1.7, w: 3.9, h: 4.2, valign: 'middle', align: 'center', fontFace: 'Arial' });
+  }
+
+  // Footer with business name and slide number
+  pptSlide.addText(options.businessName, {
+    x: 0.6, y: 6.9, w: 8, h: 0.4, fontSize: 10, color: colors.muted, fontFace: 'Arial'
+  });
+  pptSlide.addText(`${index + 1} / ${total}`, {
+    x: 10.7, y: 6.9, w: 2, h: 0.4, fontSize: 10, color: colors.muted, align: 'right', fontFace: 'Arial'
+  });
+
+  if (slide.speakerNotes) {
+    pptSlide.addNotes(slide.speakerNotes);
+  }
+};
+
+// Build a .pptx from pitch deck markdown and trigger a download
+export const exportPitchDeckToPptx = async (markdown: string, options: PptxExportOptions): Promise<number> => {
+  const slides = parsePitchDeckMarkdown(markdown);
+  if (slides.length === 0) {
+    throw new Error('No slides found in pitch deck');
+  }
+
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = `${options.businessName} Pitch Deck`;
+  pptx.company = options.businessName;
+
+  slides.forEach((slide, index) => addSlide(pptx, slide, index, slides.length, options));
+
+  await pptx.writeFile({ fileName: `${options.filename}.pptx`, compression: true });
+  return slides.length;
+};
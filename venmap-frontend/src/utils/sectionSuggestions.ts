@@ -0,0 +1,113 @@
+// Detect plan sections proposed in assistant chat replies and apply them to
+// the business plan
+import type { PlanSection } from './database';
+import { PLAN_SECTIONS } from './planSections';
+
+export interface SectionSuggestion {
+  sectionKey: string;
+  title: string;
+  content: string; // Section body in markdown, without its heading
+}
+
+interface SectionCandidate {
+  key: string;
+  title: string;
+}
+
+const MIN_SUGGESTION_LENGTH = 80;
+const EDIT_REQUEST_PATTERN = /\b((re)?write|draft|improve|revise|update|expand|shorten|rephrase|polish|make (it|that|this))\b/i;
+
+const normalizeTitle = (text: string) =>
+  text.toLowerCase().replace(/[*_`]/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Known section definitions plus any custom sections of the open plan
+const getCandidates = (sections: PlanSection[]): SectionCandidate[] => [
+  ...PLAN_SECTIONS.map(({ key, title }) => ({ key, title })),
+  ...sections
+    .filter(section => !PLAN_SECTIONS.some(definition => definition.key === section.key))
+    .map(({ key, title }) => ({ key, title }))
+];
+
+// "Solution & Value Proposition" is also referred to as just "Solution"
+const getAliases = (title: string) => {
+  const aliases = [normalizeTitle(title)];
+  if (title.includes('&')) aliases.push(normalizeTitle(title.split('&')[0]));
+  return aliases;
+};
+
+const findCandidate = (heading: string, candidates: SectionCandidate[]) => {
+  const normalized = normalizeTitle(heading);
+  return candidates.find(candidate => getAliases(candidate.title).includes(normalized));
+};
+
+// Returns the section a reply rewrites, if any: either the reply contains a
+// heading naming a plan section, or the user asked to rewrite a named section.
+// Follow-ups that name no section ("make that shorter") reuse the previous one.
+export const detectSectionSuggestion = (
+  reply: string,
+  question: string,
+  sections: PlanSection[],
+  previous: SectionSuggestion | null = null
+): SectionSuggestion | null => {
+  const candidates = getCandidates(sections);
+  const lines = reply.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const heading = lines[i].match(/^(#{1,4})\s+(.+)$/);
+    const candidate = heading && findCandidate(heading[2], candidates);
+    if (!heading || !candidate) continue;
+
+    // The section runs until the next heading of the same or a higher level
+    const level = heading[1].length;
+    const end = lines.findIndex((line, index) => {
+      const next = line.match(/^(#{1,6})\s+/);
+      return index > i && next !== null && next[1].length <= level;
+    });
+    const content = lines.slice(i + 1, end === -1 ? undefined : end).join('\n').trim();
+
+    if (content.length >= MIN_SUGGESTION_LENGTH) {
+      return { sectionKey: candidate.key, title: candidate.title, content };
+    }
+  }
+
+  if (!EDIT_REQUEST_PATTERN.test(question) || reply.trim().length < MIN_SUGGESTION_LENGTH) {
+    return null;
+  }
+
+  const normalizedQuestion = ` ${normalizeTitle(question)} `;
+  const mentioned = candidates.find(candidate =>
+    getAliases(candidate.title).some(alias => normalizedQuestion.includes(` ${alias} `))
+  );
+
+  const target = mentioned || (previous && { key: previous.sectionKey, title: previous.title });
+
+  return target ? { sectionKey: target.key, title: target.title, content: reply.trim() } : null;
+};
+
+// Replace the matching section, or insert it where PLAN_SECTIONS puts it
+export const applySectionSuggestion = (sections: PlanSection[], suggestion: SectionSuggestion): PlanSection[] => {
+  const updated: PlanSection = {
+    key: suggestion.sectionKey,
+    title: suggestion.title,
+    content: suggestion.content,
+    updatedAt: new Date().toISOString()
+  };
+
+  if (sections.some(section => section.key === suggestion.sectionKey)) {
+    return sections.map(section =>
+      section.key === suggestion.sectionKey ? { ...updated, title: section.title } : section
+    );
+  }
+
+  const order = PLAN_SECTIONS.findIndex(definition => definition.key === suggestion.sectionKey);
+  const insertAt = order === -1
+    ? sections.length
+    : sections.findIndex(section => {
+      const sectionOrder = PLAN_SECTIONS.findIndex(definition => definition.key === section.key);
+      return sectionOrder > order;
+    });
+
+  const result = [...sections];
+  result.splice(insertAt === -1 ? sections.length : insertAt, 0, updated);
+  return result;
+};
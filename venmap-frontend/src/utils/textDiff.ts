@@ -0,0 +1,74 @@
+// Line-based text diff (longest common subsequence) for previewing changes
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+
+  return result;
+};
+
+export const countChanges = (diff: DiffLine[]) => ({
+  added: diff.filter(line => line.type === 'added').length,
+  removed: diff.filter(line => line.type === 'removed').length
+});
+
+export interface SideBySideRow {
+  left?: DiffLine; // Line from the older text
+  right?: DiffLine; // Line from the newer text
+}
+
+// Pair removed lines with the added lines that replaced them so a changed
+// line sits next to its replacement
+export const toSideBySide = (diff: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let i = 0;
+
+  while (i < diff.length) {
+    if (diff[i].type === 'same') {
+      rows.push({ left: diff[i], right: diff[i] });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < diff.length && diff[i].type === 'removed') removed.push(diff[i++]);
+    while (i < diff.length && diff[i].type === 'added') added.push(diff[i++]);
+
+    for (let j = 0; j < Math.max(removed.length, added.length); j++) {
+      rows.push({ left: removed[j], right: added[j] });
+    }
+  }
+
+  return rows;
+};
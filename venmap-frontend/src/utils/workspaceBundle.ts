@@ -0,0 +1,311 @@
+// Portable JSON bundles: the whole IndexedDB workspace, for backups and moving
+// between browsers, and single-plan packages for sharing one plan. Records are
+// exported with their ids; on import every record gets a new id and foreign
+// keys are remapped to match.
+import {
+  StorageService,
+  UNSYNCED,
+  db,
+  type AppSettings,
+  type BusinessPlan,
+  type ChatMessage,
+  type ChatSession,
+  type PlanVersion,
+  type UploadedDocument
+} from './database';
+
+export const WORKSPACE_BUNDLE_FORMAT = 'venturemap-workspace';
+export const WORKSPACE_BUNDLE_VERSION = 1;
+export const PLAN_PACKAGE_FORMAT = 'venturemap-plan';
+export const PLAN_PACKAGE_VERSION = 1;
+
+// Settings that must never leave the browser
+const SECRET_SETTING_KEYS = ['userApiKeys', 'authSession'];
+
+export type WorkspaceImportMode = 'merge' | 'replace';
+
+export interface WorkspaceData {
+  businessPlans: BusinessPlan[];
+  planVersions: PlanVersion[];
+  chatSessions: ChatSession[];
+  chatMessages: ChatMessage[];
+  uploadedDocuments: UploadedDocument[];
+  appSettings: AppSettings[];
+}
+
+export interface WorkspaceBundle {
+  format: typeof WORKSPACE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  data: WorkspaceData;
+}
+
+// One plan with everything linked to it
+export interface PlanPackage {
+  format: typeof PLAN_PACKAGE_FORMAT;
+  version: number;
+  exportedAt: string;
+  plan: BusinessPlan;
+  chatSessions: ChatSession[];
+  chatMessages: ChatMessage[];
+  uploadedDocuments: UploadedDocument[];
+}
+
+export type ImportFile =
+  | { kind: 'workspace'; bundle: WorkspaceBundle }
+  | { kind: 'plan'; package: PlanPackage };
+
+export type WorkspaceCounts = Record<keyof WorkspaceData, number>;
+
+const TABLE_KEYS: (keyof WorkspaceData)[] = ['businessPlans', 'planVersions', 'chatSessions', 'chatMessages', 'uploadedDocuments', 'appSettings'];
+
+export const countWorkspace = (data: WorkspaceData): WorkspaceCounts =>
+  Object.fromEntries(TABLE_KEYS.map(key => [key, data[key].length])) as WorkspaceCounts;
+
+export const exportWorkspace = async (): Promise<WorkspaceBundle> => {
+  const [businessPlans, planVersions, chatSessions, chatMessages, uploadedDocuments, appSettings] = await Promise.all([
+    db.businessPlans.toArray(),
+    db.planVersions.toArray(),
+    db.chatSessions.toArray(),
+    db.chatMessages.toArray(),
+    db.uploadedDocuments.toArray(),
+    db.appSettings.toArray()
+  ]);
+
+  return {
+    format: WORKSPACE_BUNDLE_FORMAT,
+    version: WORKSPACE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    data: {
+      businessPlans,
+      planVersions,
+      chatSessions,
+      chatMessages,
+      uploadedDocuments,
+      appSettings: appSettings.filter(setting => !SECRET_SETTING_KEYS.includes(setting.key))
+    }
+  };
+};
+
+// Records are re-added under new ids
+const withoutId = <T extends { id?: number }>(record: T): T => {
+  const copy = { ...record };
+  delete copy.id;
+  return copy;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Every record needs these fields, with these types, to be imported
+const REQUIRED_FIELDS: Record<keyof WorkspaceData, Record<string, 'string' | 'number' | 'object'>> = {
+  businessPlans: { id: 'number', name: 'string', template: 'string', data: 'object', documents: 'object' },
+  planVersions: { businessPlanId: 'number', source: 'string', data: 'object', documents: 'object', createdAt: 'string' },
+  chatSessions: { id: 'number', title: 'string' },
+  chatMessages: { sessionId: 'number', type: 'string', message: 'string', timestamp: 'string' },
+  uploadedDocuments: { name: 'string', content: 'string' },
+  appSettings: { key: 'string' }
+};
+
+// Throws with a readable message for the first record that can't be imported
+const validateRecords = (key: keyof WorkspaceData, records: unknown, label: (index: number) => string = index => `${key}[${index}]`): unknown[] => {
+  const list = records ?? [];
+  if (!Array.isArray(list)) {
+    throw new Error(`"${key}" must be a list`);
+  }
+  list.forEach((record, index) => {
+    const invalidField = isObject(record)
+      ? Object.entries(REQUIRED_FIELDS[key]).find(([field, type]) =>
+        type === 'object' ? !isObject(record[field]) : typeof record[field] !== type)
+      : ['record'];
+    if (invalidField) {
+      throw new Error(`${label(index)} is missing a valid "${invalidField[0]}"`);
+    }
+  });
+  return list;
+};
+
+const checkVersion = (version: unknown, supported: number) => {
+  if (typeof version !== 'number' || version > supported) {
+    throw new Error(`Unsupported file version ${String(version)}; update VentureMap and try again`);
+  }
+};
+
+const parseWorkspaceData = (parsed: Record<string, unknown>): WorkspaceBundle => {
+  if (!isObject(parsed.data)) {
+    throw new Error('The workspace export has no data');
+  }
+  checkVersion(parsed.version, WORKSPACE_BUNDLE_VERSION);
+
+  const data = parsed.data;
+  TABLE_KEYS.forEach(key => {
+    data[key] = validateRecords(key, data[key]);
+  });
+  return parsed as unknown as WorkspaceBundle;
+};
+
+const parsePlanData = (parsed: Record<string, unknown>): PlanPackage => {
+  checkVersion(parsed.version, PLAN_PACKAGE_VERSION);
+  validateRecords('businessPlans', [parsed.plan], () => 'The plan');
+  parsed.chatSessions = validateRecords('chatSessions', parsed.chatSessions);
+  parsed.chatMessages = validateRecords('chatMessages', parsed.chatMessages);
+  parsed.uploadedDocuments = validateRecords('uploadedDocuments', parsed.uploadedDocuments);
+  return parsed as unknown as PlanPackage;
+};
+
+// Parse and validate a workspace export or plan package; throws with a
+// readable message if the file is neither
+export const parseImportFile = (json: string): ImportFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (isObject(parsed) && parsed.format === WORKSPACE_BUNDLE_FORMAT) {
+    return { kind: 'workspace', bundle: parseWorkspaceData(parsed) };
+  }
+  if (isObject(parsed) && parsed.format === PLAN_PACKAGE_FORMAT) {
+    return { kind: 'plan', package: parsePlanData(parsed) };
+  }
+  throw new Error('The file is not a VentureMap workspace or plan export');
+};
+
+// Import a bundle. "replace" clears the workspace first (API keys are kept);
+// "merge" adds everything alongside the existing records and only fills in
+// settings that aren't set locally.
+export const importWorkspace = async (bundle: WorkspaceBundle, mode: WorkspaceImportMode): Promise<WorkspaceCounts> => {
+  const { data } = bundle;
+  const imported: WorkspaceCounts = { businessPlans: 0, planVersions: 0, chatSessions: 0, chatMessages: 0, uploadedDocuments: 0, appSettings: 0 };
+
+  await db.transaction('rw', [db.businessPlans, db.planVersions, db.chatSessions, db.chatMessages, db.uploadedDocuments, db.appSettings], async () => {
+    if (mode === 'replace') {
+      await Promise.all([
+        db.businessPlans.clear(),
+        db.planVersions.clear(),
+        db.chatSessions.clear(),
+        db.chatMessages.clear(),
+        db.uploadedDocuments.clear(),
+        db.appSettings.filter(setting => !SECRET_SETTING_KEYS.includes(setting.key)).delete()
+      ]);
+    }
+
+    const planIds = new Map<number, number>();
+    const sessionIds = new Map<number, number>();
+    const remapPlan = (id?: number) => (id !== undefined ? planIds.get(id) : undefined);
+
+    // Merged plans are new on the backend; a replaced workspace keeps its sync links
+    const syncFields = mode === 'merge' ? UNSYNCED : {};
+    for (const plan of data.businessPlans) {
+      planIds.set(plan.id!, await db.businessPlans.add({ ...withoutId(plan), ...syncFields, copiedFromId: undefined }));
+      imported.businessPlans++;
+    }
+
+    // Copies can point at plans imported after them, so link them once all ids are known
+    for (const plan of data.businessPlans) {
+      const copiedFromId = remapPlan(plan.copiedFromId);
+      if (copiedFromId) {
+        await db.businessPlans.update(planIds.get(plan.id!)!, { copiedFromId });
+      }
+    }
+
+    for (const version of data.planVersions) {
+      const businessPlanId = remapPlan(version.businessPlanId);
+      if (!businessPlanId) continue; // History of a plan that isn't in the bundle
+      await db.planVersions.add({ ...withoutId(version), businessPlanId });
+      imported.planVersions++;
+    }
+
+    for (const session of data.chatSessions) {
+      sessionIds.set(session.id!, await db.chatSessions.add({ ...withoutId(session), businessPlanId: remapPlan(session.businessPlanId) }));
+      imported.chatSessions++;
+    }
+
+    for (const message of data.chatMessages) {
+      const sessionId = sessionIds.get(message.sessionId);
+      if (!sessionId) continue;
+      await db.chatMessages.add({ ...withoutId(message), sessionId });
+      imported.chatMessages++;
+    }
+
+    for (const document of data.uploadedDocuments) {
+      await db.uploadedDocuments.add({ ...withoutId(document), businessPlanId: remapPlan(document.businessPlanId) });
+      imported.uploadedDocuments++;
+    }
+
+    for (const setting of data.appSettings) {
+      if (SECRET_SETTING_KEYS.includes(setting.key)) continue;
+      const existing = await db.appSettings.where('key').equals(setting.key).first();
+      if (existing && mode === 'merge') continue;
+      if (existing) {
+        await db.appSettings.update(existing.id!, { value: setting.value, updatedAt: setting.updatedAt });
+      } else {
+        await db.appSettings.add(withoutId(setting));
+      }
+      imported.appSettings++;
+    }
+  });
+
+  return imported;
+};
+
+export const exportPlanPackage = async (planId: number): Promise<PlanPackage> => {
+  const plan = await db.businessPlans.get(planId);
+  if (!plan) {
+    throw new Error('Plan not found');
+  }
+
+  const [chatSessions, uploadedDocuments] = await Promise.all([
+    db.chatSessions.where('businessPlanId').equals(planId).toArray(),
+    db.uploadedDocuments.where('businessPlanId').equals(planId).toArray()
+  ]);
+  const chatMessages = await db.chatMessages
+    .where('sessionId')
+    .anyOf(chatSessions.map(session => session.id!))
+    .toArray();
+
+  return {
+    format: PLAN_PACKAGE_FORMAT,
+    version: PLAN_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    plan,
+    chatSessions,
+    chatMessages,
+    uploadedDocuments
+  };
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+export const isPlanNameTaken = (name: string, plans: Pick<BusinessPlan, 'name'>[]): boolean =>
+  plans.some(plan => normalizeName(plan.name) === normalizeName(name));
+
+// "Name (2)", "Name (3)", ... for the first name no plan uses yet
+export const suggestPlanName = (name: string, plans: Pick<BusinessPlan, 'name'>[]): string => {
+  const base = name.trim().replace(/\s+\(\d+\)$/, '');
+  let suffix = 2;
+  while (isPlanNameTaken(`${base} (${suffix})`, plans)) suffix++;
+  return `${base} (${suffix})`;
+};
+
+// Import a plan package as a new plan, with its chats and documents
+export const importPlanPackage = async (pkg: PlanPackage, name: string): Promise<number> => {
+  return db.transaction('rw', [db.businessPlans, db.planVersions, db.chatSessions, db.chatMessages, db.uploadedDocuments], async () => {
+    // New plans get fresh timestamps and start their own history
+    const planId = await StorageService.saveBusinessPlan({ ...withoutId(pkg.plan), ...UNSYNCED, name, copiedFromId: undefined }, 'manual');
+
+    for (const session of pkg.chatSessions) {
+      const sessionId = await db.chatSessions.add({ ...withoutId(session), businessPlanId: planId });
+      for (const message of pkg.chatMessages.filter(message => message.sessionId === session.id)) {
+        await db.chatMessages.add({ ...withoutId(message), sessionId });
+      }
+    }
+
+    for (const document of pkg.uploadedDocuments) {
+      await db.uploadedDocuments.add({ ...withoutId(document), businessPlanId: planId });
+    }
+
+    return planId;
+  });
+};